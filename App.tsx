@@ -1,7 +1,23 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { AppMode, AspectRatio, ImageResolution, HistoryItem, Layer, LayerSnapshot, HistoryState } from './types';
-import { generateImage, editImage } from './services/geminiService';
-import { initDB, saveItem, getItems, deleteItem } from './services/storageService';
+import { AppMode, AspectRatio, ImageResolution, GeneratedImage, GenerationParams, HistoryItem, GalleryCollection, GalleryCursor, GalleryFilter, Layer, HistoryState, Adjustment, AdjustmentType, GenerationJob, StackState, Rect, LayerTransform, BrushSettings, BrushDynamics, DynamicsCurve, TextContent, ShapeContent, ShapeType, SymmetryMode, ProjectFile, ProjectRecord, ToolType, GradientType, GradientStop, ReferenceImage, ReferenceRole, AffineMatrix } from './types';
+import { DEFAULT_PROVIDER_ID, getProviders, getProvider, getEditProvider } from './services/providerRegistry';
+import { initDB, saveItem, queryItems, blobToDataUrl, getAllItems, updateItem, getTags, getCollections, saveCollection, deleteCollection, getItem, getLineage, getDerivedItems, deleteItem, saveProject, getProjects, deleteProject } from './services/storageService';
+import { loadHistoryBudget, storeHistoryBudget, HISTORY_BUDGET_OPTIONS_MB, snapshotLayers, restoreLayers, createPixelEntry, createStackEntry, pushHistoryEntry, trimHistory, applyHistoryEntry, historyBytes, clampRect } from './services/historyService';
+import { SelectionMode, selectAll, rectSelection, polygonSelection, floodRegion, regionToCanvas, combineSelection, invertSelection, featherSelection, selectionEdges, clipToSelection } from './services/selectionService';
+import { compositeLayers } from './services/compositor';
+import { getParentId, getChildren, getDescendantIds, flattenLayerTree, isEffectivelyVisible, getSiblingBelow } from './services/layerTree';
+import { IDENTITY_TRANSFORM, transformMatrix, contentBounds, transformedCorners, drawTransformed, snapAngle, snapTranslation, untransformPoint } from './services/transformService';
+import { TEXT_FONTS, TEXT_WEIGHTS, createDefaultText, renderText, hitTestText, transformText } from './services/textService';
+import { SHAPE_LABELS, isLinearShape, createDefaultShape, renderShape, shapeBounds, hitTestShape, transformShape, dragOutShape, resizeShape } from './services/shapeService';
+import { DEFAULT_GRADIENT_STOPS, bucketFill, renderGradient, gradientCss } from './services/fillService';
+import { DEFAULT_BRUSH_DYNAMICS, StylusSample, BrushFactors, sampleStylus, brushFactors, curvePath } from './services/brushDynamics';
+import { buildJobs, countBatchJobs, parsePromptList, CONCURRENCY_OPTIONS, MAX_JOBS_PER_BATCH } from './services/generationQueue';
+import { ADJUSTMENT_LABELS, ADJUSTMENT_SLIDERS, createDefaultAdjustment, curvesLut, getAdjustmentValue, setAdjustmentValue } from './services/adjustmentService';
+import { exportArchive, importArchive, downloadArchive, withLineage, ARCHIVE_EXTENSION } from './services/archiveService';
+import { SHORTCUT_COMMANDS, Keymap, loadKeymap, storeKeymap, defaultKeymap, rebindCommand, findCommand, eventToCombo, comboKey, formatCombo } from './services/shortcutService';
+import { EXPORT_FORMATS, EXPORT_SCALES, ExportFormat, ExportMetadata, ExportSettings, loadExportSettings, storeExportSettings, exportFilename, encodeImage, downloadBlob } from './services/exportService';
+import { CutoutSettings, DEFAULT_CUTOUT_SETTINGS, CUTOUT_PROMPT, keyOutBackground, foregroundFromResponse, buildCutout } from './services/segmentationService';
+import { serializeProject, parseProject, loadLayerImages, createProjectThumbnail, downloadProject, PROJECT_EXTENSION } from './services/projectService';
 import {
   IconWand, IconDownload, IconUpload, IconTrash, IconPen,
   IconSpray, IconMarker, IconEraser, IconBrush, IconUndo,
@@ -10,7 +26,8 @@ import {
   IconSave, IconRestore, IconScissors, IconCheck, IconLayers,
   IconEye, IconEyeOff, IconPlus, IconArrowUp, IconArrowDown, IconImage,
   IconSliders, IconCrop, IconRotateCw, IconRotateCcw, IconScaling,
-  IconFlipCamera, IconChevronDown, IconChevronRight, IconCopy, IconInfo
+  IconFlipCamera, IconChevronDown, IconChevronRight, IconCopy, IconInfo,
+  IconStar, IconTag, IconSearch, IconKeyboard, IconMarquee, IconLasso, IconType, IconShapes, IconFolder, IconLock, IconBucket, IconGradient
 } from './components/Icons';
 
 const SUGGESTED_PROMPTS = [
@@ -22,6 +39,17 @@ const SUGGESTED_PROMPTS = [
   "A group of astronauts playing poker on the moon"
 ];
 
+// Gallery date filter; `days: 1` means since midnight.
+const GALLERY_DATE_RANGES = [
+  { label: 'Any time', days: 0 },
+  { label: 'Today', days: 1 },
+  { label: 'Past 7 days', days: 7 },
+  { label: 'Past 30 days', days: 30 },
+];
+
+// Display color of the inpaint mask overlay; only its alpha is used when building the mask.
+const INPAINT_MASK_COLOR = '#FF0055';
+
 // Reusable Tooltip Component - Refined for smaller, lighter text
 const Tooltip: React.FC<{ children?: React.ReactNode, text: string, position?: 'top' | 'bottom' | 'left' | 'right', className?: string }> = ({ children, text, position = 'bottom', className = '' }) => {
   const posClasses = {
@@ -69,7 +97,7 @@ const createLayer = (name: string, width: number, height: number): Layer => {
   canvas.width = width;
   canvas.height = height;
   return {
-    id: Math.random().toString(36).substring(2, 11),
+    id: newLayerId(),
     name,
     visible: true,
     opacity: 1,
@@ -78,6 +106,75 @@ const createLayer = (name: string, width: number, height: number): Layer => {
   };
 };
 
+// A mask canvas that either reveals or hides the whole layer.
+const createMask = (width: number, height: number, reveal: boolean): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  if (reveal) {
+    const ctx = canvas.getContext('2d');
+    if (ctx) { ctx.fillStyle = '#FFFFFF'; ctx.fillRect(0, 0, width, height); }
+  }
+  return canvas;
+};
+
+// Redraws every canvas a layer owns (pixels and mask) onto new canvases of the given size.
+// Text and shapes aren't pixels, so `vector` (the matrix the pixels went through) moves them the same way.
+const remapLayer = (layer: Layer, width: number, height: number, draw: (ctx: CanvasRenderingContext2D, src: HTMLCanvasElement) => void, vector?: DOMMatrix): Layer => {
+  const remap = (src: HTMLCanvasElement) => {
+    const c = document.createElement('canvas'); c.width = width; c.height = height;
+    const ctx = c.getContext('2d'); if (ctx) draw(ctx, src);
+    return c;
+  };
+  return {
+    ...layer,
+    canvas: remap(layer.canvas),
+    mask: layer.mask && remap(layer.mask),
+    text: layer.text && vector ? transformText(layer.text, vector) : layer.text,
+    shape: layer.shape && vector ? transformShape(layer.shape, vector) : layer.shape,
+  };
+};
+
+// Text and shape layers keep their content as properties, not pixels.
+const isVectorLayer = (layer: Layer) => layer.kind === 'text' || layer.kind === 'shape';
+
+// Only raster layers have pixels of their own to paint on
+const isRasterLayer = (layer: Layer) => !layer.kind || layer.kind === 'raster';
+
+// Copy of a layer with its own canvases, so edits to one don't show up in the other.
+const duplicateLayer = (layer: Layer, id: string, parentId: string | undefined): Layer => {
+  const copy = (src: HTMLCanvasElement) => {
+    const c = document.createElement('canvas'); c.width = src.width; c.height = src.height;
+    c.getContext('2d')?.drawImage(src, 0, 0);
+    return c;
+  };
+  return { ...layer, id, parentId, canvas: copy(layer.canvas), mask: layer.mask && copy(layer.mask) };
+};
+
+const newLayerId = () => Math.random().toString(36).substring(2, 11);
+
+// 0 for black to 1 for white; the level a color paints into a layer mask
+const colorLuminance = (hex: string) => {
+  const v = parseInt(hex.replace('#', ''), 16);
+  return (0.299 * ((v >> 16) & 255) + 0.587 * ((v >> 8) & 255) + 0.114 * (v & 255)) / 255;
+};
+
+// Moves the mask toward `level` wherever `dab` is painted, by the dab's alpha: the old value is
+// taken out first, then the level is added back in. Gray gives partial visibility whatever was there.
+const paintMaskLevel = (mask: HTMLCanvasElement, dab: HTMLCanvasElement, level: number, r?: Rect) => {
+  const ctx = mask.getContext('2d');
+  if (!ctx) return;
+  const { x, y, width, height } = r ?? { x: 0, y: 0, width: mask.width, height: mask.height };
+  ctx.save();
+  ctx.globalAlpha = 1;
+  ctx.globalCompositeOperation = 'destination-out';
+  ctx.drawImage(dab, x, y, width, height, x, y, width, height);
+  ctx.globalAlpha = level;
+  ctx.globalCompositeOperation = 'lighter';
+  ctx.drawImage(dab, x, y, width, height, x, y, width, height);
+  ctx.restore();
+};
+
 const BLEND_MODES: { value: GlobalCompositeOperation; label: string }[] = [
   { value: 'source-over', label: 'Normal' },
   { value: 'multiply', label: 'Multiply' },
@@ -97,6 +194,34 @@ const BLEND_MODES: { value: GlobalCompositeOperation; label: string }[] = [
   { value: 'luminosity', label: 'Luminosity' },
 ];
 
+// Shown behind transparent documents, in the same colors as the layer thumbnails
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundColor: '#444',
+  backgroundImage: 'repeating-conic-gradient(#333 0% 25%, #444 0% 50%)',
+  backgroundSize: '16px 16px',
+};
+
+// References are scaled down when added; the models don't look any closer than this.
+const MAX_REFERENCE_SIZE = 1536;
+
+const loadReferenceImage = (src: string): Promise<string> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => {
+    const scale = Math.min(1, MAX_REFERENCE_SIZE / Math.max(img.width, img.height));
+    const c = document.createElement('canvas'); c.width = Math.round(img.width * scale); c.height = Math.round(img.height * scale);
+    c.getContext('2d')?.drawImage(img, 0, 0, c.width, c.height);
+    resolve(c.toDataURL('image/png'));
+  };
+  img.onerror = () => reject(new Error("Could not read the image"));
+  img.src = src;
+});
+
+const REFERENCE_ROLES: { value: ReferenceRole; label: string }[] = [
+  { value: 'style', label: 'Style' },
+  { value: 'subject', label: 'Subject' },
+  { value: 'composition', label: 'Layout' },
+];
+
 const LayerThumbnail = ({ layer }: { layer: Layer }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   useEffect(() => {
@@ -119,6 +244,31 @@ const LayerThumbnail = ({ layer }: { layer: Layer }) => {
   return <canvas ref={canvasRef} width={40} height={40} className="w-8 h-8 rounded border border-white/10 bg-gray-800 object-cover flex-shrink-0" />;
 };
 
+// Object URLs are tied to the component so they're released when the card leaves the page.
+const BlobImage = ({ blob, className, alt }: { blob: Blob, className?: string, alt: string }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const u = URL.createObjectURL(blob);
+    setUrl(u);
+    return () => URL.revokeObjectURL(u);
+  }, [blob]);
+  return url ? <img src={url} className={className} alt={alt} loading="lazy" /> : <div className={className} />;
+};
+
+const MaskThumbnail = ({ mask, enabled, active, onClick }: { mask: HTMLCanvasElement, enabled: boolean, active: boolean, onClick: (e: React.MouseEvent) => void }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) {
+      // White mask pixels over black show the mask as grayscale
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, 40, 40);
+      ctx.drawImage(mask, 0, 0, 40, 40);
+    }
+  }, [mask, enabled]);
+  return <canvas ref={canvasRef} onClick={onClick} width={40} height={40} className={`w-8 h-8 rounded border flex-shrink-0 cursor-pointer ${active ? 'border-indigo-400 ring-1 ring-indigo-400' : 'border-white/10'} ${enabled ? '' : 'opacity-30'}`} />;
+};
+
 type CropHandleType = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
 
 const App: React.FC = () => {
@@ -128,44 +278,76 @@ const App: React.FC = () => {
   const [genPrompt, setGenPrompt] = useState('');
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>(AspectRatio.SQUARE);
   const [imageSize, setImageSize] = useState<ImageResolution>(ImageResolution.RES_1K);
-  const [genModel, setGenModel] = useState<'gemini-2.5-flash-image' | 'gemini-3-pro-image-preview'>('gemini-2.5-flash-image');
-  const [generatedImages, setGeneratedImages] = useState<string[]>([]);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [genModel, setGenModel] = useState<string>(DEFAULT_PROVIDER_ID);
+  const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [variations, setVariations] = useState(1);
+  const [matrixRatios, setMatrixRatios] = useState<AspectRatio[]>([]);
+  const [promptListMode, setPromptListMode] = useState(false);
+  const [seedInput, setSeedInput] = useState('');
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const jobControllersRef = useRef<Map<string, AbortController>>(new Map());
 
   // -- Editor State --
   const [editPrompt, setEditPrompt] = useState('');
   const [isEditing, setIsEditing] = useState(false);
-  const [editedImages, setEditedImages] = useState<string[]>([]);
+  const [editedImages, setEditedImages] = useState<GeneratedImage[]>([]);
+  // Gallery record the editor canvas came from, used as the parent of edits made from it
+  const [editorParentId, setEditorParentId] = useState<string | null>(null);
   const [layers, setLayers] = useState<Layer[]>([]);
   const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
   const [showLayerPanel, setShowLayerPanel] = useState(false);
   const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
   const [previewBlendMode, setPreviewBlendMode] = useState<GlobalCompositeOperation | null>(null);
+  // Opacity of the active layer while its slider is dragged; written to the layer on release
+  const [previewOpacity, setPreviewOpacity] = useState<number | null>(null);
+  const [renamingLayerId, setRenamingLayerId] = useState<string | null>(null);
   const [blendModeMenuId, setBlendModeMenuId] = useState<string | null>(null);
+  const [showAdjustmentMenu, setShowAdjustmentMenu] = useState(false);
   const [history, setHistory] = useState<HistoryState[]>([]);
   const [historyStep, setHistoryStep] = useState<number>(-1);
+  const [historyBudget, setHistoryBudget] = useState<number>(loadHistoryBudget);
   const [showCamera, setShowCamera] = useState(false);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
   const [isDrawing, setIsDrawing] = useState(false);
   const [brushColor, setBrushColor] = useState('#FF0055');
   const [brushSize, setBrushSize] = useState(20);
   const [brushSmoothing, setBrushSmoothing] = useState(40); // 0 to 100
-  const [brushType, setBrushType] = useState<'pen' | 'spray' | 'marker' | 'eraser' | 'pan' | 'clone'>('pen');
+  const [brushType, setBrushType] = useState<ToolType>('pen');
   const [brushShape, setBrushShape] = useState<'round' | 'square' | 'textured'>('round');
   const [brushJitter, setBrushJitter] = useState(0);
   const [brushFlow, setBrushFlow] = useState(100);
   const [brushFalloff, setBrushFalloff] = useState(0);
+  const [brushDynamics, setBrushDynamics] = useState<BrushDynamics>(DEFAULT_BRUSH_DYNAMICS);
   const [showBrushSettings, setShowBrushSettings] = useState(false);
-  const [collapsedSections, setCollapsedSections] = useState<Record<string, boolean>>({ shape: true, advanced: true, colors: false, symmetry: true });
-  const [symmetry, setSymmetry] = useState<'none' | 'vertical' | 'horizontal' | 'radial'>('none');
+  const [collapsedSections, setCollapsedSections] = useState<Record<string, boolean>>({ shape: true, advanced: true, stylus: true, colors: false, symmetry: true });
+  const [symmetry, setSymmetry] = useState<SymmetryMode>('none');
   const [radialCount, setRadialCount] = useState(4);
   const [isCropping, setIsCropping] = useState(false);
   const [cropRect, setCropRect] = useState<{ x: number, y: number, w: number, h: number } | null>(null);
   const [cropHandle, setCropHandle] = useState<CropHandleType | null>(null);
   const [showResizeDialog, setShowResizeDialog] = useState(false);
+  // Background removal in progress: the layer as it was, its pixels, and the model's keyed
+  // response once fetched. The layer shows the resulting mask live until it is applied.
+  const [cutout, setCutout] = useState<{ original: Layer, image: ImageData, response: ImageData | null } | null>(null);
+  const [cutoutSettings, setCutoutSettings] = useState<CutoutSettings>(DEFAULT_CUTOUT_SETTINGS);
+  // Document background under all layers; null is transparent
+  const [documentBackground, setDocumentBackground] = useState<string | null>(null);
+  // Export dialog; `item` is null when exporting the editor canvas, whose pixels are rendered on demand
+  const [exportTarget, setExportTarget] = useState<{ item: HistoryItem | null, source: HTMLCanvasElement | null } | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+  // Used when the scale is set to exact dimensions
+  const [exportSize, setExportSize] = useState({ width: 0, height: 0 });
+  const [exportEstimate, setExportEstimate] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
   const [resizeWidth, setResizeWidth] = useState(0);
   const [resizeHeight, setResizeHeight] = useState(0);
   const [keepAspect, setKeepAspect] = useState(true);
+  // 'image' scales every layer; 'canvas' keeps the pixels and adds or trims margins around them
+  const [resizeMode, setResizeMode] = useState<'image' | 'canvas'>('image');
+  // Where the old image sits in the new canvas, 0-1 on each axis
+  const [resizeAnchor, setResizeAnchor] = useState({ x: 0.5, y: 0.5 });
   const [showToolsMenu, setShowToolsMenu] = useState(false);
   const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1 });
   const [isPanning, setIsPanning] = useState(false);
@@ -173,15 +355,70 @@ const App: React.FC = () => {
   const [isDraggingToolbar, setIsDraggingToolbar] = useState(false);
   const [isToolbarMinimized, setIsToolbarMinimized] = useState(false);
   const [galleryItems, setGalleryItems] = useState<HistoryItem[]>([]);
+  const [galleryNext, setGalleryNext] = useState<GalleryCursor | null>(null);
+  // null when not selecting; otherwise the ids picked for export
+  const [gallerySelection, setGallerySelection] = useState<string[] | null>(null);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [galleryFilter, setGalleryFilter] = useState<GalleryFilter>({});
+  const [galleryDays, setGalleryDays] = useState(0);
+  const [galleryTags, setGalleryTags] = useState<string[]>([]);
+  const [galleryCollections, setGalleryCollections] = useState<GalleryCollection[]>([]);
+  const [lineage, setLineage] = useState<{ item: HistoryItem; chain: HistoryItem[]; derived: HistoryItem[] } | null>(null);
   const [hasSavedSession, setHasSavedSession] = useState(false);
+  const [savedProjects, setSavedProjects] = useState<ProjectRecord[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState('Untitled');
   const [draggedLayerIndex, setDraggedLayerIndex] = useState<number | null>(null);
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
   const [showInfoModal, setShowInfoModal] = useState(false);
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [remappingCommand, setRemappingCommand] = useState<string | null>(null);
 
   // Clone Stamp State
   const [cloneSource, setCloneSource] = useState<{ x: number, y: number } | null>(null);
   const [isSettingCloneSource, setIsSettingCloneSource] = useState(false);
   const cloneOffsetRef = useRef<{ x: number, y: number }>({ x: 0, y: 0 });
 
+  // Selection State: alpha of `selection` is how strongly each pixel is selected
+  const [selection, setSelection] = useState<HTMLCanvasElement | null>(null);
+  const pendingSelectionRef = useRef<HTMLCanvasElement | null>(null);
+  const [wandTolerance, setWandTolerance] = useState(15); // 0 to 100
+  const [wandContiguous, setWandContiguous] = useState(true);
+  const [bucketTolerance, setBucketTolerance] = useState(15); // 0 to 100
+  const [bucketContiguous, setBucketContiguous] = useState(true);
+  // Find the region in what is on screen instead of the active layer alone
+  const [bucketSampleAll, setBucketSampleAll] = useState(false);
+  const [gradientType, setGradientType] = useState<GradientType>('linear');
+  const [gradientStops, setGradientStops] = useState<GradientStop[]>(DEFAULT_GRADIENT_STOPS);
+  const selectionOverlayRef = useRef<HTMLCanvasElement>(null);
+  const selectionEdgesRef = useRef<HTMLCanvasElement | null>(null);
+  // Marquee corners or lasso path while dragging
+  const selectionDraftRef = useRef<{ mode: SelectionMode, points: { x: number, y: number }[] } | null>(null);
+  // Gradient being dragged out; it is redrawn over the backed-up pixels on every move
+  const gradientDragRef = useRef<{ target: HTMLCanvasElement, from: { x: number, y: number }, to: { x: number, y: number } | null } | null>(null);
+  const antsOffsetRef = useRef(0);
+  const clipboardRef = useRef<HTMLCanvasElement | null>(null);
+  // Text layer being dragged with the text tool: pointer and anchor at the start of the drag
+  // Free transform of one layer: the layer and its content box when the transform started
+  const [transformTarget, setTransformTarget] = useState<{ layerId: string, bounds: Rect } | null>(null);
+  const [layerTransform, setLayerTransform] = useState<LayerTransform>(IDENTITY_TRANSFORM);
+  const [transformSnap, setTransformSnap] = useState(true);
+  const transformOverlayRef = useRef<HTMLCanvasElement>(null);
+  // hx/hy say which box edges a scale handle moves (-1, 0 or 1 per axis)
+  const transformDragRef = useRef<{ mode: 'move' | 'rotate' | 'scale', hx: number, hy: number, start: { x: number, y: number }, origin: LayerTransform } | null>(null);
+  const [shapeType, setShapeType] = useState<ShapeType>('rectangle');
+  // Shape being drawn, moved or resized by one of its handles, as it was when the drag started
+  const shapeDragRef = useRef<{ id: string, handle: CropHandleType | 'move' | 'create', start: { x: number, y: number }, origin: ShapeContent, previousLayerId: string | null } | null>(null);
+  // Points are in the text's own coordinates, before any free transform it carries
+  const textDragRef = useRef<{ id: string, start: { x: number, y: number }, origin: { x: number, y: number }, matrix?: AffineMatrix } | null>(null);
+
+  // Inpainting State
+  const [isInpainting, setIsInpainting] = useState(false);
+  const [isEditingMask, setIsEditingMask] = useState(false);
+  const [editMask, setEditMask] = useState<HTMLCanvasElement | null>(null);
+  const inpaintMaskRef = useRef<HTMLCanvasElement>(null);
+
   // Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -194,17 +431,47 @@ const App: React.FC = () => {
   const rafIdRef = useRef<number | null>(null);
   const needsCompositeRef = useRef<boolean>(false);
   const panStartRef = useRef({ x: 0, y: 0 });
+  // Keyboard handlers are rebuilt every render; the window listeners call the latest through this ref
+  const keyHandlersRef = useRef<{ down: (e: KeyboardEvent) => void, up: (e: KeyboardEvent) => void }>({ down: () => {}, up: () => {} });
+  const heldShortcutRef = useRef<{ id: string, key: string } | null>(null);
+  const panHoldPrevRef = useRef<typeof brushType | null>(null);
   const toolbarRef = useRef<HTMLDivElement>(null);
   const dragStartRef = useRef({ x: 0, y: 0 });
   const brushTipCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const cachedBoundingRectRef = useRef<DOMRect | null>(null);
-
+  // Fingers currently on the canvas; two of them pinch-zoom and pan instead of painting
+  const touchPointsRef = useRef(new Map<number, { x: number, y: number }>());
+  const pinchRef = useRef<{ distance: number, offset: { x: number, y: number }, scale: number } | null>(null);
+  // History bookkeeping: a synchronous mirror of history/historyStep, the last committed
+  // layer stack (the "before" of the next structural change) and the pre-stroke pixel backup.
+  const historyRef = useRef<{ entries: HistoryState[], step: number }>({ entries: [], step: -1 });
+  const committedStateRef = useRef<StackState>({ layers: [], size: { width: 0, height: 0 } });
+  const pixelBackupRef = useRef<HTMLCanvasElement | null>(null);
+  const maskDabRef = useRef<HTMLCanvasElement | null>(null);
+  const strokeCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // The stroke target as it would be without the selection, so clipping is always done once, from the backup
+  const unclippedStrokeRef = useRef<HTMLCanvasElement | null>(null);
+  const strokeBoundsRef = useRef<{ minX: number, minY: number, maxX: number, maxY: number } | null>(null);
+  // loadGallery is also called from async job callbacks, so it reads the filter through a ref
+  const galleryFilterRef = useRef<GalleryFilter>({});
+  const galleryEndRef = useRef<HTMLDivElement>(null);
+  const galleryLoadingRef = useRef(false);
+
+  // Reload once legacy records have been migrated so their thumbnails are used. A failed
+  // migration still loads whatever can be read.
   useEffect(() => {
-    initDB().then(() => loadGallery());
-    const saved = localStorage.getItem('magicLens_session');
-    setHasSavedSession(!!saved);
+    initDB()
+      .catch(e => { console.error("Failed to open the gallery", e); alert("The gallery couldn't be opened. Some saved images may be missing."); })
+      .then(() => { loadGallery(); loadProjects(); });
   }, []);
 
+  // Debounced so typing in the search box doesn't query on every keystroke
+  useEffect(() => {
+    galleryFilterRef.current = galleryFilter;
+    const t = window.setTimeout(loadGallery, 200);
+    return () => window.clearTimeout(t);
+  }, [galleryFilter]);
+
   // Auto-collapse logic for mobile
   useEffect(() => {
     const checkMobile = () => {
@@ -226,22 +493,132 @@ const App: React.FC = () => {
 
   const loadGallery = async () => {
     try {
-      const items = await getItems();
-      setGalleryItems(items);
+      const [page, tags, collections] = await Promise.all([queryItems(galleryFilterRef.current), getTags(), getCollections()]);
+      setGalleryItems(page.items);
+      setGalleryNext(page.next);
+      setGalleryTags(tags);
+      setGalleryCollections(collections);
     } catch (e) {
       console.error("Failed to load history", e);
     }
   };
 
-  const downloadImage = (src: string, filename: string) => {
-    const link = document.createElement('a');
-    link.href = src;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const loadMoreGallery = async () => {
+    if (!galleryNext || galleryLoadingRef.current) return;
+    const filter = galleryFilterRef.current;
+    galleryLoadingRef.current = true;
+    try {
+      const page = await queryItems(filter, galleryNext);
+      // Drop the page if the filter changed while it was loading
+      if (galleryFilterRef.current !== filter) return;
+      setGalleryItems(prev => [...prev, ...page.items]);
+      setGalleryNext(page.next);
+    } catch (e) {
+      console.error("Failed to load history", e);
+    } finally {
+      galleryLoadingRef.current = false;
+    }
+  };
+
+  // Infinite scroll: fetch the next page when the end of the grid comes into view.
+  useEffect(() => {
+    const end = galleryEndRef.current;
+    if (mode !== AppMode.GALLERY || !end || !galleryNext) return;
+    const observer = new IntersectionObserver(entries => { if (entries[0].isIntersecting) loadMoreGallery(); }, { rootMargin: '600px' });
+    observer.observe(end);
+    return () => observer.disconnect();
+  }, [mode, galleryNext]);
+
+  const loadProjects = async () => {
+    try {
+      const records = await getProjects();
+      setSavedProjects(records);
+      setHasSavedSession(records.length > 0 || !!localStorage.getItem('magicLens_session'));
+    } catch (e) {
+      console.error("Failed to load projects", e);
+    }
+  };
+
+  // -- Export --
+  const openCanvasExport = () => {
+    setExportTarget({ item: null, source: null });
+    setExportSize({ ...canvasSize });
+  };
+
+  // Gallery images are exported from the stored original, so results and gallery items share this
+  const openImageExport = async (itemOrId: HistoryItem | string) => {
+    try {
+      const item = typeof itemOrId === 'string' ? await getItem(itemOrId) : itemOrId;
+      if (!item) { alert("This image is no longer in the gallery."); return; }
+      const bitmap = await createImageBitmap(item.image);
+      const c = document.createElement('canvas'); c.width = bitmap.width; c.height = bitmap.height;
+      c.getContext('2d')?.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      setExportTarget({ item, source: c });
+      setExportSize({ width: c.width, height: c.height });
+    } catch (err: any) {
+      console.error(err);
+      alert(`Couldn't open the image for export: ${err.message}`);
+    }
+  };
+
+  const updateExportSettings = (patch: Partial<ExportSettings>) => {
+    const next = { ...exportSettings, ...patch };
+    setExportSettings(next);
+    storeExportSettings(next);
+  };
+
+  const getExportSource = (): HTMLCanvasElement | null => {
+    if (!exportTarget) return null;
+    if (exportTarget.source) return exportTarget.source;
+    const active = layers.find(l => l.id === activeLayerId);
+    if (exportSettings.layers === 'active' && active) return renderLayerSubset(getDescendantIds(layers, active.id).add(active.id));
+    return renderDocument();
+  };
+
+  const getExportDimensions = (source: { width: number, height: number }) => exportSettings.scale
+    ? { width: Math.round(source.width * exportSettings.scale), height: Math.round(source.height * exportSettings.scale) }
+    : exportSize;
+
+  const getExportMetadata = (): ExportMetadata => {
+    const item = exportTarget?.item;
+    if (!item) return { title: projectName, createdAt: Date.now() };
+    const model = item.params && (getProviders().find(p => p.id === item.params!.providerId)?.label ?? item.params.providerId);
+    return { prompt: item.prompt, model, createdAt: item.timestamp };
+  };
+
+  const renderExport = async (): Promise<Blob> => {
+    const source = getExportSource();
+    if (!source) throw new Error("Nothing to export");
+    const { width, height } = getExportDimensions(source);
+    if (width < 1 || height < 1 || width > 16384 || height > 16384) throw new Error("Export size must be between 1 and 16384 pixels");
+    return encodeImage(source, width, height, exportSettings, exportSettings.embedMetadata ? getExportMetadata() : null);
+  };
+
+  const handleExport = async () => {
+    const item = exportTarget?.item;
+    setIsExporting(true);
+    try {
+      const blob = await renderExport();
+      downloadBlob(blob, item ? exportFilename(item.prompt, item.timestamp, exportSettings.format) : exportFilename(projectName, Date.now(), exportSettings.format));
+      setExportTarget(null);
+    } catch (err: any) {
+      console.error(err);
+      alert(err.message);
+    } finally { setIsExporting(false); }
   };
 
+  // Encodes in the background while the dialog is open, so the file size can be shown before saving
+  useEffect(() => {
+    if (!exportTarget) return;
+    let cancelled = false;
+    setExportEstimate(null);
+    const timer = setTimeout(() => {
+      renderExport().then(blob => { if (!cancelled) setExportEstimate(blob.size); }).catch(() => {});
+    }, 300);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [exportTarget, exportSettings, exportSize]);
+
   // Pre-render brush tip for performance
   useEffect(() => {
     const size = Math.max(1, brushSize);
@@ -276,7 +653,7 @@ const App: React.FC = () => {
   const renderCompositeCanvas = useCallback(() => {
     const mainCanvas = canvasRef.current;
     if (!mainCanvas) return;
-    const ctx = mainCanvas.getContext('2d', { alpha: false });
+    const ctx = mainCanvas.getContext('2d');
     if (!ctx) return;
 
     if (mainCanvas.width !== canvasSize.width || mainCanvas.height !== canvasSize.height) {
@@ -284,21 +661,18 @@ const App: React.FC = () => {
       mainCanvas.height = canvasSize.height;
     }
 
-    ctx.fillStyle = '#000';
-    ctx.fillRect(0, 0, mainCanvas.width, mainCanvas.height);
+    ctx.clearRect(0, 0, mainCanvas.width, mainCanvas.height);
+    if (documentBackground) {
+      ctx.fillStyle = documentBackground;
+      ctx.fillRect(0, 0, mainCanvas.width, mainCanvas.height);
+    }
 
-    layers.forEach(layer => {
-      if (layer.visible) {
-        ctx.globalAlpha = layer.opacity;
-        ctx.globalCompositeOperation = (layer.id === activeLayerId && previewBlendMode) ? previewBlendMode : layer.blendMode;
-        ctx.drawImage(layer.canvas, 0, 0);
-      }
+    compositeLayers(ctx, layers, {
+      preview: activeLayerId && (previewBlendMode || previewOpacity !== null) ? { layerId: activeLayerId, blendMode: previewBlendMode ?? undefined, opacity: previewOpacity ?? undefined } : null,
+      transform: transformTarget ? { layerId: transformTarget.layerId, matrix: getTransformMatrix(transformTarget.bounds, layerTransform) } : null,
     });
-
-    ctx.globalAlpha = 1;
-    ctx.globalCompositeOperation = 'source-over';
     needsCompositeRef.current = false;
-  }, [layers, activeLayerId, previewBlendMode, canvasSize]);
+  }, [layers, activeLayerId, previewBlendMode, previewOpacity, canvasSize, transformTarget, layerTransform, documentBackground]);
 
   useEffect(() => {
     const loop = () => {
@@ -312,7 +686,7 @@ const App: React.FC = () => {
   // CRITICAL: Redraw whenever mode changes back to EDIT, or standard state variables change
   useEffect(() => {
     needsCompositeRef.current = true;
-  }, [layers, canvasSize, previewBlendMode, activeLayerId, mode]);
+  }, [layers, canvasSize, previewBlendMode, previewOpacity, activeLayerId, mode, transformTarget, layerTransform, documentBackground]);
 
   const toggleCameraFacing = () => {
     const next = facingMode === 'user' ? 'environment' : 'user';
@@ -373,7 +747,10 @@ const App: React.FC = () => {
   };
 
   const handleDeleteLayer = (id: string) => {
-    const next = layers.filter(l => l.id !== id);
+    // Deleting a group deletes what is in it
+    const removed = getDescendantIds(layers, id).add(id);
+    const next = layers.filter(l => !removed.has(l.id));
+    if (next.length === 0) return;
     setLayers(next);
     if (activeLayerId === id) setActiveLayerId(next[next.length - 1]?.id || null);
     saveHistory(next);
@@ -381,17 +758,198 @@ const App: React.FC = () => {
 
   const handleAddLayer = () => {
     const l = createLayer(`Layer ${layers.length + 1}`, canvasSize.width, canvasSize.height);
+    const next = insertAboveActive(l);
+    setLayers(next);
+    setActiveLayerId(l.id);
+    saveHistory(next);
+  };
+
+  // New layers go right above the active one, in its group (or into it, when it is a group).
+  const insertAboveActive = (layer: Layer): Layer[] => {
+    const i = layers.findIndex(l => l.id === activeLayerId);
+    if (i < 0) return [...layers, layer];
+    const active = layers[i];
+    const placed = { ...layer, parentId: active.kind === 'group' ? active.id : getParentId(layers, active) };
+    return [...layers.slice(0, i + 1), placed, ...layers.slice(i + 1)];
+  };
+
+  const handleGroupLayer = () => {
+    const active = layers.find(l => l.id === activeLayerId);
+    if (!active) return;
+    const group = createLayer(`Group ${layers.filter(l => l.kind === 'group').length + 1}`, 1, 1);
+    group.kind = 'group';
+    group.parentId = getParentId(layers, active);
+    const i = layers.indexOf(active);
+    const next = [...layers.slice(0, i), { ...active, parentId: group.id }, group, ...layers.slice(i + 1)];
+    setLayers(next); setActiveLayerId(group.id); setIsEditingMask(false);
+    saveHistory(next);
+  };
+
+  const handleUngroup = () => {
+    const group = layers.find(l => l.id === activeLayerId);
+    if (group?.kind !== 'group') return;
+    const parentId = getParentId(layers, group);
+    const members = getChildren(layers, group.id);
+    const next = layers.filter(l => l.id !== group.id).map(l => members.includes(l) ? { ...l, parentId } : l);
+    setLayers(next); setActiveLayerId(members[members.length - 1]?.id ?? next[next.length - 1]?.id ?? null);
+    saveHistory(next);
+  };
+
+  const toggleGroupCollapsed = (id: string) => setCollapsedGroups(prev => prev.includes(id) ? prev.filter(g => g !== id) : [...prev, id]);
+
+  // Duplicates a layer, or a group with everything in it, right above the original.
+  const handleDuplicateLayer = () => {
+    const active = layers.find(l => l.id === activeLayerId);
+    if (!active) return;
+    const ids = new Map<string, string>();
+    const copied = getDescendantIds(layers, active.id).add(active.id);
+    layers.forEach(l => { if (copied.has(l.id)) ids.set(l.id, newLayerId()); });
+    const copies = layers.filter(l => copied.has(l.id)).map(l => {
+      const c = duplicateLayer(l, ids.get(l.id)!, l.id === active.id ? l.parentId : ids.get(l.parentId!));
+      return l.id === active.id ? { ...c, name: `${l.name} copy` } : c;
+    });
+    const i = layers.indexOf(active);
+    const next = [...layers.slice(0, i + 1), ...copies, ...layers.slice(i + 1)];
+    setLayers(next); setActiveLayerId(ids.get(active.id)!); setIsEditingMask(false);
+    saveHistory(next);
+  };
+
+  // Composites some layers onto a transparent canvas. The outermost ones are lifted to the top
+  // level so nothing outside the set affects them.
+  const renderLayerSubset = (ids: Set<string>, source: Layer[] = layers): HTMLCanvasElement => {
+    const c = document.createElement('canvas'); c.width = canvasSize.width; c.height = canvasSize.height;
+    const part = source.filter(l => ids.has(l.id)).map(l => ids.has(l.parentId ?? '') ? l : { ...l, parentId: undefined });
+    const ctx = c.getContext('2d');
+    if (ctx) compositeLayers(ctx, part);
+    return c;
+  };
+
+  // The visible document as it shows in the editor: layers blend with the background, so it goes in first
+  const renderDocument = (): HTMLCanvasElement => {
+    const c = document.createElement('canvas'); c.width = canvasSize.width; c.height = canvasSize.height;
+    const ctx = c.getContext('2d');
+    if (!ctx) return c;
+    if (documentBackground) {
+      ctx.fillStyle = documentBackground;
+      ctx.fillRect(0, 0, c.width, c.height);
+    }
+    compositeLayers(ctx, layers);
+    return c;
+  };
+
+  // Composites some layers into one new raster layer that takes the place of `anchor`.
+  // Blend modes are resolved against transparency, since what is below isn't part of the result.
+  // With `keepBlendMode` the anchor is drawn as Normal and its blend mode moves to the result
+  // instead, so it still blends with what is below; its opacity and mask are baked in.
+  const mergeLayers = (merged: Set<string>, anchor: Layer, name: string, parentId: string | undefined, keepBlendMode = false) => {
+    const source = keepBlendMode ? layers.map(l => l.id === anchor.id ? { ...l, blendMode: 'source-over' as GlobalCompositeOperation } : l) : layers;
+    const result: Layer = {
+      ...createLayer(name, 1, 1), parentId, canvas: renderLayerSubset(merged, source),
+      blendMode: keepBlendMode ? anchor.blendMode : 'source-over',
+    };
+    const next = layers.flatMap(l => l.id === anchor.id ? [result] : merged.has(l.id) ? [] : [merged.has(l.parentId ?? '') ? { ...l, parentId } : l]);
+    setLayers(next); setActiveLayerId(result.id); setIsEditingMask(false);
+    saveHistory(next);
+  };
+
+  const handleMergeDown = () => {
+    const active = layers.find(l => l.id === activeLayerId);
+    const below = active && getSiblingBelow(layers, active);
+    if (!active || !below) return;
+    const merged = new Set([below.id, active.id, ...getDescendantIds(layers, below.id), ...getDescendantIds(layers, active.id)]);
+    // An adjustment has no pixels of its own for a blend mode to apply to
+    mergeLayers(merged, below, below.name, getParentId(layers, below), below.kind !== 'adjustment');
+  };
+
+  // Hidden layers survive merge visible, moved out of any group that gets merged.
+  const handleMergeVisible = () => {
+    const visible = layers.filter(l => isEffectivelyVisible(layers, l));
+    if (visible.length < 2) return;
+    mergeLayers(new Set(visible.map(l => l.id)), visible[visible.length - 1], 'Merged', undefined);
+  };
+
+  const handleFlattenImage = () => {
+    if (layers.length < 2) return;
+    if (layers.some(l => !isEffectivelyVisible(layers, l)) && !confirm("Flattening discards hidden layers. Continue?")) return;
+    mergeLayers(new Set(layers.map(l => l.id)), layers[layers.length - 1], 'Background', undefined);
+  };
+
+  const handleAddAdjustmentLayer = (type: AdjustmentType) => {
+    const l = createLayer(ADJUSTMENT_LABELS[type], canvasSize.width, canvasSize.height);
+    l.kind = 'adjustment';
+    l.adjustment = createDefaultAdjustment(type);
+    const next = insertAboveActive(l);
+    setLayers(next);
+    setActiveLayerId(l.id);
+    setIsEditingMask(false);
+    setShowAdjustmentMenu(false);
+    saveHistory(next);
+  };
+
+  const handleAddTextLayer = (x: number, y: number) => {
+    const content = prompt("Text:", "");
+    if (!content) return;
+    const l = createLayer(content.split('\n')[0].slice(0, 24), canvasSize.width, canvasSize.height);
+    l.kind = 'text';
+    l.text = { ...createDefaultText(x, y, brushColor, Math.max(16, Math.round(canvasSize.height / 12))), text: content };
     const next = [...layers, l];
     setLayers(next);
     setActiveLayerId(l.id);
+    setIsEditingMask(false);
+    setShowLayerPanel(true);
     saveHistory(next);
   };
 
+  // Live update while typing or dragging; commitLayerEdit records it once the edit ends.
+  const handleUpdateText = (id: string, patch: Partial<TextContent>) => {
+    setLayers(prev => prev.map(l => l.id === id && l.text ? { ...l, text: { ...l.text, ...patch } } : l));
+  };
+
+  const handleUpdateShape = (id: string, patch: Partial<ShapeContent>) => {
+    setLayers(prev => prev.map(l => l.id === id && l.shape ? { ...l, shape: { ...l.shape, ...patch } } : l));
+  };
+
+  // For one-click shape options, which are recorded straight away
+  const handleSetShape = (id: string, patch: Partial<ShapeContent>) => {
+    const next = layers.map(l => l.id === id && l.shape ? { ...l, shape: { ...l.shape, ...patch } } : l);
+    setLayers(next);
+    saveHistory(next);
+  };
+
+  // Turns a text or shape layer into ordinary pixels, e.g. to paint over it.
+  const handleRasterizeLayer = () => {
+    if (!activeLayer || !isVectorLayer(activeLayer)) return;
+    const c = document.createElement('canvas'); c.width = canvasSize.width; c.height = canvasSize.height;
+    const ctx = c.getContext('2d');
+    if (!ctx) return;
+    if (activeLayer.text) renderText(ctx, activeLayer.text);
+    if (activeLayer.shape) renderShape(ctx, activeLayer.shape);
+    const next = layers.map(l => l.id === activeLayer.id ? { ...l, canvas: c, kind: undefined, text: undefined, shape: undefined } : l);
+    setLayers(next);
+    saveHistory(next);
+  };
+
+  // Live update while a slider is dragged; commitLayerEdit records it once the gesture ends.
+  const handleUpdateAdjustment = (id: string, adjustment: Adjustment) => {
+    setLayers(layers.map(l => l.id === id ? { ...l, adjustment } : l));
+  };
+
+  const commitLayerEdit = () => {
+    const committed = committedStateRef.current.layers;
+    const changed = layers.length !== committed.length ||
+      layers.some((l, i) => (Object.keys(l) as (keyof Layer)[]).some(k => l[k] !== (committed[i] as Layer)[k]));
+    if (changed) saveHistory(layers);
+  };
+
+  // Dropping onto a group moves the layer into it; dropping onto any other layer puts it next to that one.
   const handleLayerDrop = (targetIndex: number) => {
     if (draggedLayerIndex === null) return;
+    const dragged = layers[draggedLayerIndex], target = layers[targetIndex];
+    if (!dragged || !target || dragged === target || getDescendantIds(layers, dragged.id).has(target.id)) { setDraggedLayerIndex(null); return; }
+    const parentId = target.kind === 'group' ? target.id : getParentId(layers, target);
     const newLayers = [...layers];
     const [removed] = newLayers.splice(draggedLayerIndex, 1);
-    newLayers.splice(targetIndex, 0, removed);
+    newLayers.splice(targetIndex, 0, { ...removed, parentId });
     setLayers(newLayers);
     setDraggedLayerIndex(null);
     saveHistory(newLayers);
@@ -405,55 +963,733 @@ const App: React.FC = () => {
     saveHistory(next);
   };
 
+  const handleCommitOpacity = () => {
+    if (previewOpacity === null || !activeLayer) return;
+    setPreviewOpacity(null);
+    if (previewOpacity === activeLayer.opacity) return;
+    const next = layers.map(l => l.id === activeLayer.id ? { ...l, opacity: previewOpacity } : l);
+    setLayers(next);
+    saveHistory(next);
+  };
+
+  const handleRenameLayer = (id: string, name: string) => {
+    setRenamingLayerId(null);
+    const layer = layers.find(l => l.id === id);
+    if (!layer || !name.trim() || name.trim() === layer.name) return;
+    const next = layers.map(l => l.id === id ? { ...l, name: name.trim() } : l);
+    setLayers(next);
+    saveHistory(next);
+  };
+
+  const handleToggleLock = (id: string, lock: 'lockPixels' | 'lockAlpha') => {
+    const next = layers.map(l => l.id === id ? { ...l, [lock]: !l[lock] } : l);
+    setLayers(next);
+    saveHistory(next);
+  };
+
+  const handleAddMask = () => {
+    if (!activeLayer) return;
+    const next = layers.map(l => l.id === activeLayer.id ? { ...l, mask: createMask(canvasSize.width, canvasSize.height, true), maskEnabled: true } : l);
+    setLayers(next);
+    setIsEditingMask(true);
+    saveHistory(next);
+  };
+
+  const handleToggleMask = () => {
+    if (!activeLayer?.mask) return;
+    const next = layers.map(l => l.id === activeLayer.id ? { ...l, maskEnabled: !l.maskEnabled } : l);
+    setLayers(next);
+    saveHistory(next);
+  };
+
+  const handleInvertMask = () => {
+    const mask = activeLayer?.mask;
+    const ctx = mask?.getContext('2d');
+    if (!mask || !ctx) return;
+    beginPixelEdit(mask);
+    const data = ctx.getImageData(0, 0, mask.width, mask.height);
+    for (let i = 0; i < data.data.length; i += 4) {
+      data.data[i] = data.data[i + 1] = data.data[i + 2] = 255;
+      data.data[i + 3] = 255 - data.data[i + 3];
+    }
+    ctx.putImageData(data, 0, 0);
+    commitPixelEdit(mask);
+    // New layer object so thumbnails pick up the change
+    setLayers(layers.map(l => l.id === activeLayer!.id ? { ...l } : l));
+    needsCompositeRef.current = true;
+  };
+
+  // Bakes the mask into the layer pixels. A new canvas is used so the change is a single stack command.
+  const handleApplyMask = () => {
+    if (!activeLayer?.mask) return;
+    const c = createMask(canvasSize.width, canvasSize.height, false);
+    const ctx = c.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(activeLayer.canvas, 0, 0);
+    if (activeLayer.maskEnabled) {
+      ctx.globalCompositeOperation = 'destination-in';
+      ctx.drawImage(activeLayer.mask, 0, 0);
+    }
+    const next = layers.map(l => l.id === activeLayer.id ? { ...l, canvas: c, mask: undefined, maskEnabled: undefined } : l);
+    setLayers(next);
+    setIsEditingMask(false);
+    saveHistory(next);
+  };
+
+  const handleDeleteMask = () => {
+    if (!activeLayer?.mask) return;
+    const next = layers.map(l => l.id === activeLayer.id ? { ...l, mask: undefined, maskEnabled: undefined } : l);
+    setLayers(next);
+    setIsEditingMask(false);
+    saveHistory(next);
+  };
+
   const openResizeDialog = () => {
     setResizeWidth(canvasSize.width);
     setResizeHeight(canvasSize.height);
+    setResizeAnchor({ x: 0.5, y: 0.5 });
     setShowResizeDialog(true);
   };
 
+  // Smallest canvas of the given aspect ratio that contains the current one
+  const extendToAspect = (ratio: number) => {
+    const { width, height } = canvasSize;
+    if (width / height < ratio) { setResizeWidth(Math.round(height * ratio)); setResizeHeight(height); }
+    else { setResizeWidth(width); setResizeHeight(Math.round(width / ratio)); }
+  };
+
   const handleClearLayer = () => {
     if (!activeLayerId) return;
     const layer = layers.find(l => l.id === activeLayerId);
-    if (!layer) return;
+    if (!layer || !isRasterLayer(layer) || layer.lockPixels || layer.lockAlpha) return;
     const ctx = layer.canvas.getContext('2d');
     if (ctx) {
-      ctx.clearRect(0, 0, layer.canvas.width, layer.canvas.height);
+      beginPixelEdit(layer.canvas);
+      if (selection) {
+        ctx.globalCompositeOperation = 'destination-out';
+        ctx.drawImage(selection, 0, 0);
+        ctx.globalCompositeOperation = 'source-over';
+      } else {
+        ctx.clearRect(0, 0, layer.canvas.width, layer.canvas.height);
+      }
       needsCompositeRef.current = true;
-      saveHistory();
+      commitPixelEdit(layer.canvas);
     }
   };
 
-  const handleUndo = () => { if (historyStep > 0) restoreStep(historyStep - 1); };
+  // -- Selection --
+  const isSelectionTool = brushType === 'marquee' || brushType === 'lasso' || brushType === 'wand';
+
+  const finishSelectionDraft = () => {
+    const draft = selectionDraftRef.current;
+    selectionDraftRef.current = null;
+    if (!draft) return;
+    const [a, b] = draft.points;
+    const shape = brushType === 'marquee'
+      ? rectSelection(canvasSize.width, canvasSize.height, a.x, a.y, (b?.x ?? a.x) - a.x, (b?.y ?? a.y) - a.y)
+      : polygonSelection(canvasSize.width, canvasSize.height, draft.points);
+    // A click without a drag deselects, like in other editors
+    setSelection(draft.points.length < 2 && draft.mode === 'replace' ? null : combineSelection(selection, shape, draft.mode));
+    drawSelectionOverlay();
+  };
+
+  // Samples what is on screen rather than the active layer alone.
+  const handleMagicWand = (x: number, y: number, mode: SelectionMode) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const image = ctx.getImageData(0, 0, canvasSize.width, canvasSize.height);
+    const region = floodRegion(image, x, y, Math.round(wandTolerance * 2.55), wandContiguous);
+    setSelection(combineSelection(selection, regionToCanvas(region, canvasSize.width, canvasSize.height), mode));
+  };
+
+  const handleSelectAll = () => setSelection(selectAll(canvasSize.width, canvasSize.height));
+  const handleDeselect = () => setSelection(null);
+  const handleInvertSelection = () => setSelection(selection ? combineSelection(null, invertSelection(selection), 'replace') : selectAll(canvasSize.width, canvasSize.height));
+
+  const handleFeatherSelection = () => {
+    if (!selection) return;
+    const radius = parseFloat(prompt("Feather radius (px):", "8") || '');
+    if (!(radius > 0)) return;
+    setSelection(featherSelection(selection, radius));
+  };
+
+  const handleFillSelection = () => {
+    const target = getStrokeCanvas();
+    const ctx = target?.getContext('2d');
+    if (!target || !ctx || isInpainting) return;
+    const fill = selection ? clipToSelection(selection, selection) : selectAll(target.width, target.height);
+    const fctx = fill.getContext('2d')!;
+    fctx.globalCompositeOperation = 'source-in';
+    const paintingMask = target !== activeLayer?.canvas;
+    fctx.fillStyle = paintingMask ? '#FFFFFF' : brushColor;
+    fctx.fillRect(0, 0, fill.width, fill.height);
+    beginPixelEdit(target);
+    if (paintingMask) {
+      paintMaskLevel(target, fill, colorLuminance(brushColor));
+    } else {
+      if (activeLayer?.lockAlpha) ctx.globalCompositeOperation = 'source-atop';
+      ctx.drawImage(fill, 0, 0);
+      ctx.globalCompositeOperation = 'source-over';
+    }
+    needsCompositeRef.current = true;
+    commitPixelEdit(target);
+  };
+
+  // -- Paint bucket and gradient --
+  // Both only write into the layer's own pixels, not its mask or the inpaint mask
+  const getFillTarget = (): HTMLCanvasElement | null => {
+    const target = getStrokeCanvas();
+    return target && target === activeLayer?.canvas ? target : null;
+  };
+
+  // Fills stay inside the selection and, with alpha locked, inside what is already opaque
+  const drawFill = (target: HTMLCanvasElement, fill: HTMLCanvasElement) => {
+    const ctx = target.getContext('2d');
+    if (!ctx) return;
+    ctx.save();
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = activeLayer?.lockAlpha ? 'source-atop' : 'source-over';
+    ctx.drawImage(selection ? clipToSelection(fill, selection) : fill, 0, 0);
+    ctx.restore();
+    needsCompositeRef.current = true;
+  };
+
+  const handleBucketFill = (x: number, y: number) => {
+    const target = getFillTarget();
+    const source = bucketSampleAll ? canvasRef.current : target;
+    const sample = source?.getContext('2d')?.getImageData(0, 0, canvasSize.width, canvasSize.height);
+    if (!target || !sample) return;
+    beginPixelEdit(target);
+    drawFill(target, bucketFill(sample, getSymmetricPoints(x, y), brushColor, Math.round(bucketTolerance * 2.55), bucketContiguous));
+    commitPixelEdit(target);
+  };
+
+  const updateGradientDrag = (x: number, y: number) => {
+    const drag = gradientDragRef.current;
+    if (!drag) return;
+    drag.to = { x, y };
+    restorePixelBackup(drag.target);
+    drawFill(drag.target, renderGradient(canvasSize.width, canvasSize.height, gradientType, drag.from, drag.to, gradientStops, symmetry));
+  };
+
+  const updateGradientStop = (index: number, patch: Partial<GradientStop>) =>
+    setGradientStops(stops => stops.map((s, i) => i === index ? { ...s, ...patch } : s));
+
+  const handleCopySelection = () => {
+    if (!activeLayer || !isRasterLayer(activeLayer)) return;
+    clipboardRef.current = selection ? clipToSelection(activeLayer.canvas, selection) : clipToSelection(activeLayer.canvas, selectAll(canvasSize.width, canvasSize.height));
+  };
+
+  const handleCutSelection = () => {
+    handleCopySelection();
+    handleClearLayer();
+  };
+
+  // Pasted pixels keep their position, so copy + paste lifts the selection onto its own layer.
+  const handlePasteAsLayer = () => {
+    const clip = clipboardRef.current;
+    if (!clip) return;
+    const l = createLayer('Pasted', canvasSize.width, canvasSize.height);
+    l.canvas.getContext('2d')?.drawImage(clip, 0, 0);
+    const next = [...layers, l];
+    setLayers(next); setActiveLayerId(l.id); setIsEditingMask(false);
+    saveHistory(next);
+  };
+
+  // Without a selection this duplicates the layer, which also works for groups and vector layers
+  const handleLayerViaCopy = () => {
+    if (!selection) { handleDuplicateLayer(); return; }
+    handleCopySelection();
+    handlePasteAsLayer();
+  };
+
+  const antsPatternRef = useRef<HTMLCanvasElement | null>(null);
+
+  // Marching ants: a moving stripe pattern cut down to the selection outline, plus the shape being dragged.
+  const drawSelectionOverlay = () => {
+    const overlay = selectionOverlayRef.current;
+    const ctx = overlay?.getContext('2d');
+    if (!overlay || !ctx) return;
+    ctx.clearRect(0, 0, overlay.width, overlay.height);
+    const offset = antsOffsetRef.current;
+    if (!antsPatternRef.current) {
+      const tile = document.createElement('canvas'); tile.width = tile.height = 8;
+      const tctx = tile.getContext('2d')!;
+      tctx.fillStyle = '#fff'; tctx.fillRect(0, 0, 8, 8);
+      tctx.fillStyle = '#000'; tctx.beginPath(); tctx.moveTo(0, 0); tctx.lineTo(4, 0); tctx.lineTo(8, 4); tctx.lineTo(8, 8); tctx.closePath(); tctx.fill();
+      tctx.beginPath(); tctx.moveTo(0, 4); tctx.lineTo(4, 8); tctx.lineTo(0, 8); tctx.closePath(); tctx.fill();
+      antsPatternRef.current = tile;
+    }
+    const edges = selectionEdgesRef.current;
+    if (edges) {
+      const pattern = ctx.createPattern(antsPatternRef.current, 'repeat');
+      pattern?.setTransform(new DOMMatrix().translate(offset, 0));
+      ctx.save();
+      ctx.fillStyle = pattern ?? '#fff';
+      ctx.fillRect(0, 0, overlay.width, overlay.height);
+      ctx.globalCompositeOperation = 'destination-in';
+      ctx.drawImage(edges, 0, 0);
+      ctx.restore();
+    }
+    const draft = selectionDraftRef.current;
+    if (draft && draft.points.length > 0) {
+      ctx.save();
+      ctx.lineWidth = 1 / transform.scale;
+      ctx.setLineDash([4 / transform.scale, 4 / transform.scale]);
+      ctx.beginPath();
+      if (brushType === 'marquee') {
+        const [a, b = a] = draft.points;
+        ctx.rect(a.x, a.y, b.x - a.x, b.y - a.y);
+      } else {
+        draft.points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      }
+      ctx.strokeStyle = '#000'; ctx.lineDashOffset = 0; ctx.stroke();
+      ctx.strokeStyle = '#fff'; ctx.lineDashOffset = 4 / transform.scale; ctx.stroke();
+      ctx.restore();
+    }
+  };
+
+  // Outline thickness follows the zoom so the ants stay about one screen pixel wide.
+  useEffect(() => {
+    selectionEdgesRef.current = selection ? selectionEdges(selection, Math.max(1, Math.round(1 / transform.scale))) : null;
+    drawSelectionOverlay();
+    if (!selection) return;
+    const id = window.setInterval(() => { antsOffsetRef.current = (antsOffsetRef.current + 1) % 8; drawSelectionOverlay(); }, 120);
+    return () => window.clearInterval(id);
+  }, [selection, transform.scale]);
+
+  // Selections and pending transforms don't survive a change of canvas size (crop, resize, rotate, new image),
+  // apart from a selection the new image brings along
+  useEffect(() => {
+    setSelection(pendingSelectionRef.current);
+    pendingSelectionRef.current = null;
+    setTransformTarget(null);
+  }, [canvasSize.width, canvasSize.height]);
+
+  // -- Free transform --
+  const getTransformMatrix = (bounds: Rect, t: LayerTransform) =>
+    transformMatrix(t, { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 });
+
+  // Transforms act on the layer's visible content, so the box hugs it rather than the whole canvas.
+  const startTransform = (layer: Layer | undefined) => {
+    if (!layer || layer.kind === 'adjustment' || layer.kind === 'group') return;
+    let source = layer.canvas;
+    if (isVectorLayer(layer)) {
+      source = document.createElement('canvas'); source.width = canvasSize.width; source.height = canvasSize.height;
+      const ctx = source.getContext('2d');
+      if (ctx && layer.text) renderText(ctx, layer.text);
+      if (ctx && layer.shape) renderShape(ctx, layer.shape);
+    }
+    const bounds = contentBounds(source);
+    if (!bounds) { alert("This layer is empty."); return; }
+    if (isCropping) toggleCrop();
+    setTransformTarget({ layerId: layer.id, bounds });
+    setLayerTransform(IDENTITY_TRANSFORM);
+  };
+
+  const handleCancelTransform = () => {
+    transformDragRef.current = null;
+    setTransformTarget(null);
+  };
+
+  const handleApplyTransform = () => {
+    const target = transformTarget;
+    if (!target) return;
+    const t = layerTransform;
+    setTransformTarget(null);
+    if (t.x === 0 && t.y === 0 && t.scaleX === 1 && t.scaleY === 1 && t.rotation === 0) return;
+    const m = getTransformMatrix(target.bounds, t);
+    const next = layers.map(l => l.id !== target.layerId ? l : remapLayer(l, canvasSize.width, canvasSize.height, (ctx, src) => drawTransformed(ctx, src, m), m));
+    setLayers(next);
+    saveHistory(next);
+  };
+
+  // Corner and edge handles scale, dragging inside the box moves, dragging outside it rotates.
+  const beginTransformDrag = (x: number, y: number) => {
+    if (!transformTarget) return;
+    const b = transformTarget.bounds;
+    const m = getTransformMatrix(b, layerTransform);
+    const tolerance = 12 / transform.scale;
+    let handle: { hx: number, hy: number } | null = null;
+    for (const hx of [-1, 0, 1]) {
+      for (const hy of [-1, 0, 1]) {
+        if (!hx && !hy) continue;
+        const p = m.transformPoint(new DOMPoint(b.x + b.width * (hx + 1) / 2, b.y + b.height * (hy + 1) / 2));
+        if (Math.hypot(p.x - x, p.y - y) <= tolerance) handle = { hx, hy };
+      }
+    }
+    const local = m.inverse().transformPoint(new DOMPoint(x, y));
+    const inside = local.x >= b.x && local.x <= b.x + b.width && local.y >= b.y && local.y <= b.y + b.height;
+    transformDragRef.current = {
+      mode: handle ? 'scale' : inside ? 'move' : 'rotate',
+      hx: handle?.hx ?? 0,
+      hy: handle?.hy ?? 0,
+      start: { x, y },
+      origin: layerTransform,
+    };
+  };
+
+  const updateTransformDrag = (px: number, py: number, shiftKey: boolean) => {
+    const drag = transformDragRef.current;
+    if (!drag || !transformTarget) return;
+    const b = transformTarget.bounds;
+    const { origin, start } = drag;
+    const center = { x: b.x + b.width / 2 + origin.x, y: b.y + b.height / 2 + origin.y };
+    if (drag.mode === 'move') {
+      const moved = { ...origin, x: origin.x + px - start.x, y: origin.y + py - start.y };
+      setLayerTransform(transformSnap ? snapTranslation(moved, b, canvasSize.width, canvasSize.height, 8 / transform.scale) : moved);
+    } else if (drag.mode === 'rotate') {
+      const delta = (Math.atan2(py - center.y, px - center.x) - Math.atan2(start.y - center.y, start.x - center.x)) * 180 / Math.PI;
+      let rotation = ((origin.rotation + delta) % 360 + 540) % 360 - 180;
+      // Shift always snaps to 15 degree steps; with snapping on, angles close to a step stick to it
+      if (transformSnap || shiftKey) rotation = snapAngle(rotation, shiftKey);
+      setLayerTransform({ ...origin, rotation });
+    } else {
+      // Work in the box's own rotated frame, centered on it, where the opposite edges stay put
+      const a = origin.rotation * Math.PI / 180;
+      const dx = px - center.x, dy = py - center.y;
+      const lx = dx * Math.cos(a) + dy * Math.sin(a), ly = -dx * Math.sin(a) + dy * Math.cos(a);
+      const halfW = b.width / 2 * Math.abs(origin.scaleX), halfH = b.height / 2 * Math.abs(origin.scaleY);
+      let left = -halfW, right = halfW, top = -halfH, bottom = halfH;
+      if (drag.hx === 1) right = Math.max(lx, left + 1);
+      if (drag.hx === -1) left = Math.min(lx, right - 1);
+      if (drag.hy === 1) bottom = Math.max(ly, top + 1);
+      if (drag.hy === -1) top = Math.min(ly, bottom - 1);
+      if (drag.hx && drag.hy && !shiftKey) {
+        // Corners keep the proportions unless Shift is held
+        const k = Math.max((right - left) / (halfW * 2), (bottom - top) / (halfH * 2));
+        if (drag.hx === 1) right = left + halfW * 2 * k; else left = right - halfW * 2 * k;
+        if (drag.hy === 1) bottom = top + halfH * 2 * k; else top = bottom - halfH * 2 * k;
+      }
+      const cx = (left + right) / 2, cy = (top + bottom) / 2;
+      setLayerTransform({
+        ...origin,
+        x: origin.x + cx * Math.cos(a) - cy * Math.sin(a),
+        y: origin.y + cx * Math.sin(a) + cy * Math.cos(a),
+        scaleX: Math.sign(origin.scaleX) * (right - left) / b.width,
+        scaleY: Math.sign(origin.scaleY) * (bottom - top) / b.height,
+      });
+    }
+  };
+
+  // Box and handles of the transform, redrawn as it changes
+  useEffect(() => {
+    const overlay = transformOverlayRef.current;
+    const ctx = overlay?.getContext('2d');
+    if (!overlay || !ctx) return;
+    ctx.clearRect(0, 0, overlay.width, overlay.height);
+    if (!transformTarget) return;
+    const b = transformTarget.bounds;
+    const m = getTransformMatrix(b, layerTransform);
+    const corners = transformedCorners(b, m);
+    ctx.lineWidth = 1.5 / transform.scale;
+    ctx.strokeStyle = '#818cf8';
+    ctx.beginPath();
+    corners.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+    ctx.stroke();
+    const size = 10 / transform.scale;
+    ctx.fillStyle = '#6366f1';
+    ctx.strokeStyle = '#fff';
+    for (const hx of [-1, 0, 1]) {
+      for (const hy of [-1, 0, 1]) {
+        if (!hx && !hy) continue;
+        const p = m.transformPoint(new DOMPoint(b.x + b.width * (hx + 1) / 2, b.y + b.height * (hy + 1) / 2));
+        ctx.fillRect(p.x - size / 2, p.y - size / 2, size, size);
+        ctx.strokeRect(p.x - size / 2, p.y - size / 2, size, size);
+      }
+    }
+  }, [transformTarget, layerTransform, transform.scale, canvasSize]);
+
+  const handleUndo = () => { if (historyStep >= 0) restoreStep(historyStep - 1); };
   const handleRedo = () => { if (historyStep < history.length - 1) restoreStep(historyStep + 1); };
 
-  const handleGenerate = async () => {
-    if (!genPrompt.trim()) return;
-    if (genModel === 'gemini-3-pro-image-preview') {
-      if (typeof window !== 'undefined' && (window as any).aistudio) {
-        try {
-          const hasKey = await (window as any).aistudio.hasSelectedApiKey();
-          if (!hasKey) await (window as any).aistudio.openSelectKey();
-        } catch (e) { console.warn("API key check error", e); }
+  const genProvider = getProvider(genModel);
+  const activeLayer = layers.find(l => l.id === activeLayerId);
+
+  const handleSelectProvider = (id: string) => {
+    const { capabilities } = getProvider(id);
+    setGenModel(id);
+    // Fall back to the first supported option when the new provider cannot honor the current one.
+    if (!capabilities.aspectRatios.includes(aspectRatio)) setAspectRatio(capabilities.aspectRatios[0]);
+    if (!capabilities.resolutions.includes(imageSize)) setImageSize(capabilities.resolutions[0]);
+    setReferences(prev => prev.slice(0, capabilities.references));
+  };
+
+  // -- Reference images --
+  const addReference = async (src: Blob | string, sourceId?: string) => {
+    if (references.length >= genProvider.capabilities.references) {
+      alert(`${genProvider.label} takes up to ${genProvider.capabilities.references} reference images.`);
+      return;
+    }
+    try {
+      const image = await loadReferenceImage(typeof src === 'string' ? src : await blobToDataUrl(src));
+      setReferences(prev => prev.length < genProvider.capabilities.references ? [...prev, { image, role: 'style', sourceId }] : prev);
+    } catch (e: any) {
+      console.error(e);
+      alert("Could not add that image as a reference.");
+    }
+  };
+
+  const handleAddReferenceFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files) return;
+    const picked: File[] = [];
+    for (let i = 0; i < files.length; i++) picked.push(files[i]);
+    e.target.value = '';
+    for (const f of picked) await addReference(f);
+  };
+
+  const handleAddCanvasReference = () => {
+    if (layers.length === 0) { alert("Open an image in the editor first."); return; }
+    addReference(renderDocument().toDataURL('image/png'));
+  };
+
+  const handleUseAsReference = async (item: HistoryItem) => {
+    if (genProvider.capabilities.references === 0) { alert(`${genProvider.label} doesn't take reference images.`); return; }
+    await addReference(item.image, item.id);
+    setMode(AppMode.GENERATE);
+  };
+
+  const setReferenceRole = (index: number, role: ReferenceRole) => {
+    setReferences(prev => prev.map((r, i) => i === index ? { ...r, role } : r));
+  };
+
+  // Gallery references of an earlier generation. Uploads and editor snapshots aren't kept, and
+  // gallery items may have been deleted since; those are left out.
+  const restoreReferences = async (used: GenerationParams['references']): Promise<ReferenceImage[]> => {
+    const restored: ReferenceImage[] = [];
+    for (const r of used ?? []) {
+      const item = r.sourceId ? await getItem(r.sourceId) : undefined;
+      if (!item) continue;
+      try {
+        restored.push({ image: await loadReferenceImage(await blobToDataUrl(item.image)), role: r.role, sourceId: item.id });
+      } catch (e) {
+        console.error(e);
       }
     }
-    setIsGenerating(true);
+    return restored;
+  };
+
+  const batchPrompts = promptListMode ? parsePromptList(genPrompt) : (genPrompt.trim() ? [genPrompt.trim()] : []);
+  const batchRatios = [aspectRatio, ...matrixRatios.filter(r => r !== aspectRatio && genProvider.capabilities.aspectRatios.includes(r))];
+  const batchJobCount = Math.min(MAX_JOBS_PER_BATCH, countBatchJobs({ prompts: batchPrompts, aspectRatios: batchRatios, variations }));
+  const isGenerating = jobs.some(j => j.status === 'running');
+
+  const updateJob = (id: string, patch: Partial<GenerationJob>) => {
+    setJobs(prev => prev.map(j => j.id === id ? { ...j, ...patch } : j));
+  };
+
+  const runJob = async (job: GenerationJob) => {
+    const controller = new AbortController();
+    jobControllersRef.current.set(job.id, controller);
+    updateJob(job.id, { status: 'running', attempts: job.attempts + 1, error: undefined });
     try {
-      const results = await generateImage(genPrompt, aspectRatio, imageSize, genModel);
-      setGeneratedImages(prev => [...results, ...prev]);
-      await saveItem({ id: Date.now().toString(), type: 'generated', src: results[0], prompt: genPrompt, timestamp: Date.now() });
+      const results = await getProvider(job.providerId).generate({
+        prompt: job.prompt, aspectRatio: job.aspectRatio, imageSize: job.imageSize, seed: job.seed, references: job.references, signal: controller.signal
+      });
+      if (controller.signal.aborted) return;
+      if (results.length === 0) throw new Error("No image returned");
+      const params: GenerationParams = {
+        providerId: job.providerId, aspectRatio: job.aspectRatio, imageSize: job.imageSize, seed: job.seed,
+        references: job.references?.map(({ role, sourceId }) => ({ role, sourceId })),
+      };
+      const saved: GeneratedImage[] = results.map((url, i) => ({ url, prompt: job.prompt, id: `${job.id}-${job.attempts}-${i}` }));
+      for (const r of saved) {
+        await saveItem({ id: r.id, type: 'generated', src: r.url, prompt: r.prompt, timestamp: Date.now(), params });
+      }
+      updateJob(job.id, { status: 'done', results });
+      setGeneratedImages(prev => [...saved, ...prev]);
       loadGallery();
     } catch (e: any) {
-      if (e.message?.includes("Requested entity was not found.")) {
-        if (typeof window !== 'undefined' && (window as any).aistudio) {
-          await (window as any).aistudio.openSelectKey();
+      // Cancelled jobs were already marked by handleCancelJob
+      if (controller.signal.aborted) return;
+      console.error("Error generating image:", e);
+      updateJob(job.id, { status: 'failed', error: e?.message || 'Generation failed' });
+    } finally {
+      jobControllersRef.current.delete(job.id);
+    }
+  };
+
+  // Queue pump: start queued jobs while fewer than `concurrency` are running.
+  useEffect(() => {
+    const free = concurrency - jobs.filter(j => j.status === 'running').length;
+    if (free <= 0) return;
+    jobs.filter(j => j.status === 'queued').slice(0, free).forEach(runJob);
+  }, [jobs, concurrency]);
+
+  const handleGenerate = async () => {
+    if (batchPrompts.length === 0) return;
+    // Credentials are requested once per batch rather than once per job
+    await genProvider.prepare?.();
+    const baseSeed = seedInput.trim() ? parseInt(seedInput, 10) : undefined;
+    const next = buildJobs({
+      providerId: genProvider.id, prompts: batchPrompts, aspectRatios: batchRatios, imageSize, variations,
+      baseSeed: Number.isFinite(baseSeed) ? baseSeed : undefined, references,
+    }, genProvider.capabilities.seed);
+    setJobs(prev => [...prev, ...next]);
+  };
+
+  const handleCancelJob = (id: string) => {
+    jobControllersRef.current.get(id)?.abort();
+    setJobs(prev => prev.map(j => j.id === id && (j.status === 'queued' || j.status === 'running') ? { ...j, status: 'cancelled' } : j));
+  };
+
+  const handleCancelAllJobs = () => {
+    jobControllersRef.current.forEach(c => c.abort());
+    setJobs(prev => prev.map(j => j.status === 'queued' || j.status === 'running' ? { ...j, status: 'cancelled' } : j));
+  };
+
+  const handleRetryJob = (id: string) => updateJob(id, { status: 'queued', error: undefined });
+
+  const handleClearFinishedJobs = () => setJobs(prev => prev.filter(j => j.status === 'queued' || j.status === 'running'));
+
+  const toggleMatrixRatio = (r: AspectRatio) => {
+    setMatrixRatios(prev => prev.includes(r) ? prev.filter(x => x !== r) : [...prev, r]);
+  };
+
+  const updateGalleryFilter = (patch: Partial<GalleryFilter>) => setGalleryFilter(prev => ({ ...prev, ...patch }));
+
+  const handleSetGalleryDays = (days: number) => {
+    setGalleryDays(days);
+    const midnight = new Date(); midnight.setHours(0, 0, 0, 0);
+    updateGalleryFilter({ from: days === 0 ? undefined : midnight.getTime() - (days - 1) * 86400000 });
+  };
+
+  const handleToggleFavorite = (item: HistoryItem) => {
+    updateItem(item.id, { favoritedAt: item.favoritedAt === undefined ? Date.now() : undefined }).then(loadGallery);
+  };
+
+  const handleAddTags = (item: HistoryItem) => {
+    const input = prompt("Add tags (comma separated):");
+    if (!input) return;
+    const added = input.split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+    updateItem(item.id, { tags: Array.from(new Set([...(item.tags ?? []), ...added])) }).then(loadGallery);
+  };
+
+  const handleRemoveTag = (item: HistoryItem, tag: string) => {
+    updateItem(item.id, { tags: item.tags?.filter(t => t !== tag) }).then(loadGallery);
+  };
+
+  const handleToggleCollection = (item: HistoryItem, collectionId: string) => {
+    const current = item.collectionIds ?? [];
+    const collectionIds = current.includes(collectionId) ? current.filter(c => c !== collectionId) : [...current, collectionId];
+    updateItem(item.id, { collectionIds }).then(loadGallery);
+  };
+
+  const handleCreateCollection = async () => {
+    const name = prompt("Collection name:")?.trim();
+    if (!name) return;
+    const collection = { id: Date.now().toString(), name, createdAt: Date.now() };
+    await saveCollection(collection);
+    updateGalleryFilter({ collectionId: collection.id });
+  };
+
+  const handleDeleteCollection = async (id: string) => {
+    if (!confirm("Delete this collection? Its images stay in the gallery.")) return;
+    await deleteCollection(id);
+    updateGalleryFilter({ collectionId: undefined });
+  };
+
+  const toggleGallerySelection = (id: string) => {
+    setGallerySelection(prev => prev && (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  // A selection also exports the ancestors of its items so their lineage survives the trip.
+  const handleExportGallery = async () => {
+    setIsArchiving(true);
+    try {
+      const items = gallerySelection ? await withLineage(galleryItems.filter(i => gallerySelection.includes(i.id))) : await getAllItems();
+      if (items.length === 0) { alert("Nothing to export."); return; }
+      downloadArchive(await exportArchive(items));
+      setGallerySelection(null);
+    } catch (e: any) {
+      console.error(e);
+      alert(`Export failed: ${e.message}`);
+    } finally { setIsArchiving(false); }
+  };
+
+  const handleImportGallery = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0]; if (!f) return;
+    e.target.value = '';
+    setIsArchiving(true);
+    try {
+      const { imported, duplicates } = await importArchive(f);
+      alert(`Imported ${imported} item${imported === 1 ? '' : 's'}${duplicates ? `, skipped ${duplicates} already in the gallery` : ''}.`);
+      loadGallery();
+    } catch (err: any) {
+      console.error(err);
+      alert(err.message);
+    } finally { setIsArchiving(false); }
+  };
+
+  const handleOpenInEditor = async (item: HistoryItem) => {
+    initEditorWithImage(await blobToDataUrl(item.image), item.id);
+    setLineage(null);
+    setMode(AppMode.EDIT);
+  };
+
+  // Generated assets are re-queued with their recorded settings; edits reopen their source canvas with the prompt filled in.
+  const handleRegenerate = async (item: HistoryItem) => {
+    setLineage(null);
+    if (item.type === 'edited') {
+      const source = item.parentId ? await getItem(item.parentId) : undefined;
+      if (!source) { alert("The source image for this edit is no longer in the gallery."); return; }
+      // The edited area comes back as the selection, which limits the next edit the same way
+      let region: HTMLImageElement | undefined;
+      if (item.params?.mask) {
+        try {
+          region = new Image();
+          region.src = item.params.mask;
+          await region.decode();
+        } catch (e) {
+          console.error(e);
+          region = undefined;
         }
       }
-      console.error("Error generating image:", e);
-      alert("Failed to generate image.");
-    } finally { setIsGenerating(false); }
+      if (item.params?.masked && !region) alert("The area this edit was limited to couldn't be restored. Select or paint it again before editing.");
+      initEditorWithImage(await blobToDataUrl(source.image), source.parentId ?? null, region);
+      setEditPrompt(item.prompt);
+      setMode(AppMode.EDIT);
+      return;
+    }
+    setGenPrompt(item.prompt);
+    setPromptListMode(false);
+    setMode(AppMode.GENERATE);
+    const params = item.params;
+    // Records saved before provenance was tracked only carry the prompt
+    if (!params) return;
+    const provider = getProvider(params.providerId);
+    handleSelectProvider(provider.id);
+    if (params.aspectRatio) setAspectRatio(params.aspectRatio);
+    if (params.imageSize) setImageSize(params.imageSize);
+    setSeedInput(params.seed !== undefined ? String(params.seed) : '');
+    const restored = (await restoreReferences(params.references)).slice(0, provider.capabilities.references);
+    setReferences(restored);
+    // Without all its references it would be a different request; leave the panel set up to add them back
+    const lost = (params.references?.length ?? 0) - restored.length;
+    if (lost > 0 && !confirm(`${lost} of the ${params.references!.length} reference images used for this image ${lost === 1 ? "isn't" : "aren't"} available anymore (uploads and editor snapshots aren't saved). Regenerate without ${lost === 1 ? 'it' : 'them'}?`)) return;
+    await provider.prepare?.();
+    const next = buildJobs({
+      providerId: provider.id, prompts: [item.prompt],
+      aspectRatios: [params.aspectRatio ?? provider.capabilities.aspectRatios[0]],
+      imageSize: params.imageSize ?? provider.capabilities.resolutions[0], variations: 1, baseSeed: params.seed, references: restored,
+    }, provider.capabilities.seed);
+    setJobs(prev => [...prev, ...next]);
+  };
+
+  const describeParams = (params?: GenerationParams) => {
+    if (!params) return '';
+    const label = getProviders().find(p => p.id === params.providerId)?.label ?? params.providerId;
+    return [label, params.aspectRatio, params.imageSize, params.seed !== undefined && `seed ${params.seed}`, params.masked && 'masked', params.references?.length && `${params.references.length} ref`].filter(Boolean).join(' · ');
+  };
+
+  const handleOpenLineage = async (item: HistoryItem) => {
+    const [chain, derived] = await Promise.all([getLineage(item.id), getDerivedItems(item.id)]);
+    setLineage({ item, chain, derived });
   };
 
-  const initEditorWithImage = (src: string) => {
+  const initEditorWithImage = (src: string, parentId: string | null = null, region?: HTMLImageElement) => {
     const img = new Image();
     img.src = src;
     img.onload = () => {
@@ -467,25 +1703,39 @@ const App: React.FC = () => {
       bg.canvas.getContext('2d')?.drawImage(img, 0, 0, w, h);
       setLayers([bg]);
       setActiveLayerId(bg.id);
-      setHistory([]);
-      setHistoryStep(-1);
-      setTimeout(() => saveHistory([bg], w, h), 100);
-
-      // Improved auto-fit scaling for both mobile and desktop
-      if (containerRef.current) {
-        const padding = window.innerWidth < 768 ? 20 : 60;
-        const containerW = containerRef.current.clientWidth - padding;
-        const containerH = containerRef.current.clientHeight - padding - 100; // Account for prompt bar
-        const initialFitScale = Math.min(containerW / w, containerH / h, 1);
-        setTransform({ x: 0, y: -20, scale: initialFitScale });
-      } else {
-        setTransform({ x: 0, y: 0, scale: 0.5 });
+      setDocumentBackground(null);
+      setProjectId(null);
+      setProjectName('Untitled');
+      setEditorParentId(parentId);
+      resetHistory([bg], { width: w, height: h });
+      fitCanvasToView(w, h);
+      if (region) {
+        const restored = document.createElement('canvas'); restored.width = w; restored.height = h;
+        restored.getContext('2d')?.drawImage(region, 0, 0, w, h);
+        // Inpainting would limit the edit to the (now empty) painted mask instead
+        setIsInpainting(false);
+        // A change of size clears the selection once it renders, so it is handed over there instead
+        if (w !== canvasSize.width || h !== canvasSize.height) pendingSelectionRef.current = restored;
+        else setSelection(restored);
       }
 
       needsCompositeRef.current = true;
     };
   };
 
+  // Improved auto-fit scaling for both mobile and desktop
+  const fitCanvasToView = (w: number, h: number) => {
+    if (containerRef.current) {
+      const padding = window.innerWidth < 768 ? 20 : 60;
+      const containerW = containerRef.current.clientWidth - padding;
+      const containerH = containerRef.current.clientHeight - padding - 100; // Account for prompt bar
+      const initialFitScale = Math.min(containerW / w, containerH / h, 1);
+      setTransform({ x: 0, y: -20, scale: initialFitScale });
+    } else {
+      setTransform({ x: 0, y: 0, scale: 0.5 });
+    }
+  };
+
   const startCamera = async (mode: 'user' | 'environment' = facingMode) => {
     setShowCamera(true);
     setFacingMode(mode);
@@ -523,15 +1773,25 @@ const App: React.FC = () => {
     return points;
   };
 
-  const handlePointerDown = (e: React.MouseEvent | React.TouchEvent) => {
+  const handlePointerDown = (e: React.PointerEvent) => {
     if (isDraggingToolbar) return;
     const canvas = canvasRef.current;
     if (!canvas) return;
 
+    if (e.pointerType === 'touch') {
+      touchPointsRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      // Capture every finger so a lift outside the canvas still reaches handlePointerUp
+      canvas.setPointerCapture(e.pointerId);
+      if (touchPointsRef.current.size > 1) { startPinch(); return; }
+    } else if (!e.isPrimary || e.button !== 0) {
+      return;
+    }
+    canvas.setPointerCapture(e.pointerId);
+
     cachedBoundingRectRef.current = canvas.getBoundingClientRect();
 
     const rect = cachedBoundingRectRef.current;
-    const { clientX: cx, clientY: cy } = 'touches' in e ? e.touches[0] : e;
+    const { clientX: cx, clientY: cy } = e;
     const x = (cx - rect.left) * (canvas.width / rect.width);
     const y = (cy - rect.top) * (canvas.height / rect.height);
 
@@ -543,6 +1803,11 @@ const App: React.FC = () => {
       return;
     }
 
+    if (transformTarget) {
+      beginTransformDrag(x, y);
+      return;
+    }
+
     if (brushType === 'clone') {
       if (isSettingCloneSource) {
         setCloneSource({ x, y });
@@ -563,30 +1828,92 @@ const App: React.FC = () => {
       return;
     }
 
-    if (!activeLayerId) return;
-    const layer = layers.find(l => l.id === activeLayerId);
-    if (!layer || !layer.visible) return;
+    if (brushType === 'text') {
+      // Clicking text picks up its layer to drag; clicking elsewhere adds new text there
+      const hit = [...layers].reverse().find(l => isEffectivelyVisible(layers, l) && l.text && hitTestText(l.text, x, y));
+      if (hit?.text) {
+        setActiveLayerId(hit.id); setIsEditingMask(false);
+        textDragRef.current = { id: hit.id, start: untransformPoint(hit.text.matrix, x, y), origin: { x: hit.text.x, y: hit.text.y }, matrix: hit.text.matrix };
+      } else {
+        handleAddTextLayer(x, y);
+      }
+      return;
+    }
+
+    if (brushType === 'shape') {
+      // Clicking a shape picks it up to move; anywhere else starts drawing a new one
+      const hit = [...layers].reverse().find(l => isEffectivelyVisible(layers, l) && l.shape && hitTestShape(l.shape, x, y));
+      if (hit?.shape) {
+        setActiveLayerId(hit.id); setIsEditingMask(false);
+        shapeDragRef.current = { id: hit.id, handle: 'move', start: { x, y }, origin: hit.shape, previousLayerId: activeLayerId };
+      } else {
+        const l = createLayer(SHAPE_LABELS[shapeType], canvasSize.width, canvasSize.height);
+        l.kind = 'shape';
+        l.shape = createDefaultShape(shapeType, x, y, brushColor, Math.max(1, Math.round(brushSize / 4)), symmetry, radialCount, { x: canvasSize.width / 2, y: canvasSize.height / 2 });
+        setLayers([...layers, l]); setActiveLayerId(l.id); setIsEditingMask(false);
+        shapeDragRef.current = { id: l.id, handle: 'create', start: { x, y }, origin: l.shape, previousLayerId: activeLayerId };
+      }
+      return;
+    }
+
+    if (brushType === 'bucket') {
+      handleBucketFill(x, y);
+      return;
+    }
+
+    if (brushType === 'gradient') {
+      const target = getFillTarget();
+      if (!target) return;
+      beginPixelEdit(target);
+      gradientDragRef.current = { target, from: { x, y }, to: null };
+      return;
+    }
+
+    if (isSelectionTool) {
+      // Shift adds to the selection, Alt subtracts from it
+      const mode: SelectionMode = e.shiftKey ? 'add' : e.altKey ? 'subtract' : 'replace';
+      if (brushType === 'wand') { handleMagicWand(x, y, mode); return; }
+      selectionDraftRef.current = { mode, points: [{ x, y }] };
+      drawSelectionOverlay();
+      return;
+    }
+
+    const target = getStrokeCanvas();
+    if (!target) return;
 
     setIsDrawing(true);
     strokeDistanceRef.current = 0;
     smoothedPointRef.current = { x, y };
-    const ctx = layer.canvas.getContext('2d');
+    // Mask strokes are drawn white on a scratch canvas and moved into the mask as the brush color's level
+    const maskDab = getMaskDab(target, true);
+    const ctx = (maskDab ?? target).getContext('2d');
     if (!ctx) return;
 
     const points = getSymmetricPoints(x, y);
-    ctx.lineWidth = brushSize;
+    strokeCanvasRef.current = target;
+    strokeBoundsRef.current = null;
+    expandStrokeBounds(points);
+    // The inpaint mask is backed up too, so a pinch can take back the stroke it interrupts
+    beginPixelEdit(target);
+    beginSelectionStroke(target);
+    const factors = brushFactors(brushDynamics, sampleStylus(e.nativeEvent));
+    const hiding = brushType === 'eraser';
+    const color = isInpainting ? INPAINT_MASK_COLOR : maskDab ? '#FFFFFF' : brushColor;
+    ctx.lineWidth = brushSize * factors.size;
     ctx.lineCap = brushShape === 'square' ? 'square' : 'round';
     ctx.lineJoin = brushShape === 'square' ? 'bevel' : 'round';
-    ctx.strokeStyle = brushColor;
-    ctx.fillStyle = brushColor;
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
 
     let alpha = brushType === 'marker' ? 0.5 : 1.0;
-    alpha *= (brushFlow / 100);
+    alpha *= (brushFlow / 100) * factors.flow * factors.opacity;
     ctx.globalAlpha = alpha;
-    ctx.globalCompositeOperation = brushType === 'eraser' ? 'destination-out' : 'source-over';
+    // source-atop paints over what is there without adding coverage, which is what locking alpha means
+    const keepAlpha = target === activeLayer?.canvas && activeLayer.lockAlpha;
+    ctx.globalCompositeOperation = hiding ? 'destination-out' : keepAlpha ? 'source-atop' : 'source-over';
 
     if (brushType === 'clone') {
-      paintClone(ctx, points);
+      paintClone(ctx, points, brushSize * factors.size);
     } else if (brushType === 'pen' || brushType === 'eraser' || brushType === 'marker') {
       ctx.beginPath();
       points.forEach(p => {
@@ -595,14 +1922,122 @@ const App: React.FC = () => {
       });
       ctx.stroke();
     } else if (brushType === 'spray') {
-      points.forEach(p => sprayPaint(ctx, p.x, p.y));
+      points.forEach(p => sprayPaint(ctx, p.x, p.y, factors));
     }
+    if (maskDab) applyMaskDab(target, maskDab, points);
+    restoreOutsideSelection(target, points);
 
     lastDrawPointRef.current = { x, y };
     needsCompositeRef.current = true;
   };
 
-  const paintClone = (ctx: CanvasRenderingContext2D, points: { x: number, y: number }[]) => {
+  // Scratch canvas for a layer mask stroke, or null when the stroke doesn't go to a layer mask.
+  // Only resized when a stroke starts, since that resets the context's brush settings.
+  const getMaskDab = (target: HTMLCanvasElement, starting: boolean): HTMLCanvasElement | null => {
+    if (isInpainting || target === activeLayer?.canvas || brushType === 'eraser') return null;
+    const dab = maskDabRef.current ?? document.createElement('canvas');
+    if (starting && (dab.width !== target.width || dab.height !== target.height)) { dab.width = target.width; dab.height = target.height; }
+    maskDabRef.current = dab;
+    return dab;
+  };
+
+  const applyMaskDab = (target: HTMLCanvasElement, dab: HTMLCanvasElement, points: { x: number, y: number }[]) => {
+    // Spray and textured tips reach a brush size past the point
+    const pad = brushSize * 2 + 2;
+    const xs = points.map(p => p.x), ys = points.map(p => p.y);
+    const r = clampRect({ x: Math.min(...xs) - pad, y: Math.min(...ys) - pad, width: Math.max(...xs) - Math.min(...xs) + pad * 2, height: Math.max(...ys) - Math.min(...ys) + pad * 2 }, target.width, target.height);
+    const dctx = dab.getContext('2d');
+    if (!r || !dctx) return;
+    // Textured tips and the clone stamp bring their own colors; only the dab's coverage counts
+    dctx.save();
+    dctx.globalAlpha = 1;
+    dctx.globalCompositeOperation = 'source-in';
+    dctx.fillStyle = '#FFFFFF';
+    dctx.fillRect(r.x, r.y, r.width, r.height);
+    dctx.restore();
+    paintMaskLevel(target, dab, colorLuminance(brushColor), r);
+    dctx.clearRect(r.x, r.y, r.width, r.height);
+  };
+
+  const expandStrokeBounds = (points: { x: number, y: number }[]) => {
+    points.forEach(p => {
+      const b = strokeBoundsRef.current;
+      strokeBoundsRef.current = b
+        ? { minX: Math.min(b.minX, p.x), minY: Math.min(b.minY, p.y), maxX: Math.max(b.maxX, p.x), maxY: Math.max(b.maxY, p.y) }
+        : { minX: p.x, minY: p.y, maxX: p.x, maxY: p.y };
+    });
+  };
+
+  // Strokes are painted freely, then the pre-stroke pixels outside the selection are put back
+  // around the points just drawn. Only works on backed-up targets, so not the inpaint mask.
+  const beginSelectionStroke = (target: HTMLCanvasElement) => {
+    if (!selection || isInpainting) { unclippedStrokeRef.current = null; return; }
+    const unclipped = document.createElement('canvas');
+    unclipped.width = target.width; unclipped.height = target.height;
+    unclipped.getContext('2d')?.drawImage(target, 0, 0);
+    unclippedStrokeRef.current = unclipped;
+  };
+
+  const getSelectionStrokeRect = (target: HTMLCanvasElement, points: { x: number, y: number }[]) => {
+    const pad = brushSize + 2;
+    const xs = points.map(p => p.x), ys = points.map(p => p.y);
+    return clampRect({ x: Math.min(...xs) - pad, y: Math.min(...ys) - pad, width: Math.max(...xs) - Math.min(...xs) + pad * 2, height: Math.max(...ys) - Math.min(...ys) + pad * 2 }, target.width, target.height);
+  };
+
+  const copyRect = (from: HTMLCanvasElement, to: HTMLCanvasElement, r: { x: number, y: number, width: number, height: number }) => {
+    const ctx = to.getContext('2d');
+    if (!ctx) return;
+    ctx.save();
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.clearRect(r.x, r.y, r.width, r.height);
+    ctx.drawImage(from, r.x, r.y, r.width, r.height, r.x, r.y, r.width, r.height);
+    ctx.restore();
+  };
+
+  // Puts the unclipped pixels back under the next segment, so overlapping segments don't clip twice
+  const unclipSelectionStroke = (target: HTMLCanvasElement, points: { x: number, y: number }[]) => {
+    const unclipped = unclippedStrokeRef.current;
+    const r = getSelectionStrokeRect(target, points);
+    if (unclipped && r) copyRect(unclipped, target, r);
+  };
+
+  const restoreOutsideSelection = (target: HTMLCanvasElement, points: { x: number, y: number }[]) => {
+    const backup = pixelBackupRef.current;
+    const unclipped = unclippedStrokeRef.current;
+    if (!selection || !backup || !unclipped || isInpainting) return;
+    const r = getSelectionStrokeRect(target, points);
+    const ctx = target.getContext('2d');
+    if (!r || !ctx) return;
+    copyRect(target, unclipped, r);
+    const inside = document.createElement('canvas'); inside.width = r.width; inside.height = r.height;
+    const ictx = inside.getContext('2d')!;
+    ictx.drawImage(unclipped, r.x, r.y, r.width, r.height, 0, 0, r.width, r.height);
+    ictx.globalCompositeOperation = 'destination-in';
+    ictx.drawImage(selection, r.x, r.y, r.width, r.height, 0, 0, r.width, r.height);
+    copyRect(backup, target, r);
+    ctx.save();
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.drawImage(selection, r.x, r.y, r.width, r.height, r.x, r.y, r.width, r.height);
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.drawImage(inside, r.x, r.y);
+    ctx.restore();
+  };
+
+  // While inpainting, the brush paints the edit mask; while editing a layer mask, it paints that mask.
+  const getStrokeCanvas = (): HTMLCanvasElement | null => {
+    if (isInpainting) return inpaintMaskRef.current;
+    if (!activeLayer || !activeLayer.visible) return null;
+    if (isEditingMask && activeLayer.mask) return activeLayer.mask;
+    // Adjustment, text, shape and group layers only accept painting on their mask
+    if (!isRasterLayer(activeLayer) || activeLayer.lockPixels) return null;
+    // Erasing only ever changes alpha
+    if (activeLayer.lockAlpha && brushType === 'eraser') return null;
+    return activeLayer.canvas;
+  };
+
+  const paintClone = (ctx: CanvasRenderingContext2D, points: { x: number, y: number }[], size: number) => {
     if (!cloneSource || !canvasRef.current) return;
     const off = cloneOffsetRef.current;
 
@@ -610,35 +2045,40 @@ const App: React.FC = () => {
       ctx.save();
       ctx.beginPath();
       if (brushShape === 'square') {
-        ctx.rect(p.x - brushSize / 2, p.y - brushSize / 2, brushSize, brushSize);
+        ctx.rect(p.x - size / 2, p.y - size / 2, size, size);
       } else {
-        ctx.arc(p.x, p.y, brushSize / 2, 0, Math.PI * 2);
+        ctx.arc(p.x, p.y, size / 2, 0, Math.PI * 2);
       }
       ctx.clip();
 
       // Draw from the main canvas (composite) to the layer
       ctx.drawImage(
         canvasRef.current!,
-        p.x + off.x - brushSize / 2, p.y + off.y - brushSize / 2, brushSize, brushSize,
-        p.x - brushSize / 2, p.y - brushSize / 2, brushSize, brushSize
+        p.x + off.x - size / 2, p.y + off.y - size / 2, size, size,
+        p.x - size / 2, p.y - size / 2, size, size
       );
       ctx.restore();
     });
   };
 
-  const sprayPaint = (ctx: CanvasRenderingContext2D, x: number, y: number) => {
-    const size = brushSize;
-    const density = Math.floor(size * (brushFlow / 40));
+  const sprayPaint = (ctx: CanvasRenderingContext2D, x: number, y: number, factors: BrushFactors) => {
+    const size = brushSize * factors.size;
+    const density = Math.floor(size * (brushFlow / 40) * factors.flow);
     for (let i = 0; i < density; i++) {
       const r = Math.sqrt(Math.random()) * size;
       const theta = Math.random() * Math.PI * 2;
-      ctx.globalAlpha = Math.random() * 0.4;
+      ctx.globalAlpha = Math.random() * 0.4 * factors.opacity;
       ctx.fillRect(x + Math.cos(theta) * r, y + Math.sin(theta) * r, 1.5, 1.5);
     }
   };
 
-  const handlePointerMove = (e: React.MouseEvent | React.TouchEvent) => {
-    const { clientX: cx, clientY: cy } = 'touches' in e ? e.touches[0] : e;
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const { clientX: cx, clientY: cy } = e;
+
+    if (e.pointerType === 'touch' && touchPointsRef.current.has(e.pointerId)) {
+      touchPointsRef.current.set(e.pointerId, { x: cx, y: cy });
+      if (pinchRef.current) { updatePinch(); return; }
+    }
 
     if (isPanning) {
       e.preventDefault();
@@ -663,11 +2103,63 @@ const App: React.FC = () => {
       return;
     }
 
-    if (!isDrawing || !canvasRef.current || !cachedBoundingRectRef.current) return;
-    const layer = layers.find(l => l.id === activeLayerId);
-    if (!layer) return;
-    const ctx = layer.canvas.getContext('2d');
+    if (transformDragRef.current && cachedBoundingRectRef.current) {
+      const rect = cachedBoundingRectRef.current;
+      updateTransformDrag((cx - rect.left) * (canvasSize.width / rect.width), (cy - rect.top) * (canvasSize.height / rect.height), e.shiftKey);
+      return;
+    }
+
+    const shapeDrag = shapeDragRef.current;
+    if (shapeDrag && cachedBoundingRectRef.current) {
+      const rect = cachedBoundingRectRef.current;
+      const px = (cx - rect.left) * (canvasSize.width / rect.width), py = (cy - rect.top) * (canvasSize.height / rect.height);
+      const { origin, handle } = shapeDrag;
+      // Edits happen in the shape's own coordinates, before any free transform it carries
+      const p = untransformPoint(origin.matrix, px, py), start = untransformPoint(origin.matrix, shapeDrag.start.x, shapeDrag.start.y);
+      const next = handle === 'create' ? dragOutShape(origin, p.x, p.y, e.shiftKey)
+        : handle === 'move' ? { ...origin, x: origin.x + p.x - start.x, y: origin.y + p.y - start.y }
+        : resizeShape(origin, handle, p.x, p.y);
+      handleUpdateShape(shapeDrag.id, next);
+      return;
+    }
+
+    const textDrag = textDragRef.current;
+    if (textDrag && cachedBoundingRectRef.current) {
+      const rect = cachedBoundingRectRef.current;
+      const p = untransformPoint(textDrag.matrix, (cx - rect.left) * (canvasSize.width / rect.width), (cy - rect.top) * (canvasSize.height / rect.height));
+      handleUpdateText(textDrag.id, { x: textDrag.origin.x + p.x - textDrag.start.x, y: textDrag.origin.y + p.y - textDrag.start.y });
+      return;
+    }
+
+    if (gradientDragRef.current && cachedBoundingRectRef.current) {
+      const rect = cachedBoundingRectRef.current;
+      updateGradientDrag((cx - rect.left) * (canvasSize.width / rect.width), (cy - rect.top) * (canvasSize.height / rect.height));
+      return;
+    }
+
+    const draft = selectionDraftRef.current;
+    if (draft && cachedBoundingRectRef.current) {
+      const rect = cachedBoundingRectRef.current;
+      const p = { x: (cx - rect.left) * (canvasSize.width / rect.width), y: (cy - rect.top) * (canvasSize.height / rect.height) };
+      draft.points = brushType === 'marquee' ? [draft.points[0], p] : [...draft.points, p];
+      drawSelectionOverlay();
+      return;
+    }
+
+    if (!isDrawing) return;
+    // Pens report more positions than there are frames; paint through all of them
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    (events.length ? events : [e.nativeEvent]).forEach(ev => strokeTo(ev.clientX, ev.clientY, sampleStylus(ev)));
+  };
+
+  const strokeTo = (cx: number, cy: number, sample: StylusSample) => {
+    if (!canvasRef.current || !cachedBoundingRectRef.current) return;
+    const target = getStrokeCanvas();
+    if (!target) return;
+    const maskDab = getMaskDab(target, false);
+    const ctx = (maskDab ?? target).getContext('2d');
     if (!ctx) return;
+    const factors = brushFactors(brushDynamics, sample);
 
     const rect = cachedBoundingRectRef.current;
     let targetX = (cx - rect.left) * (canvasRef.current.width / rect.width);
@@ -696,31 +2188,35 @@ const App: React.FC = () => {
       strokeDistanceRef.current += dist;
 
       let alpha = brushType === 'marker' ? 0.5 : 1.0;
-      alpha *= (brushFlow / 100);
+      alpha *= (brushFlow / 100) * factors.flow * factors.opacity;
       if (brushFalloff > 0) alpha *= Math.max(0, 1 - (strokeDistanceRef.current / (3000 / (brushFalloff * 0.5 || 1))));
       ctx.globalAlpha = alpha;
 
       const points = getSymmetricPoints(drawX, drawY);
       const lastPoints = getSymmetricPoints(last.x, last.y);
+      expandStrokeBounds(points);
+      unclipSelectionStroke(target, [...points, ...lastPoints]);
+      const size = brushSize * factors.size;
+      ctx.lineWidth = size;
 
       if (brushType === 'clone') {
-        const steps = Math.ceil(dist / (brushSize / 4));
+        const steps = Math.ceil(dist / (size / 4));
         for (let s = 1; s <= steps; s++) {
           const lerpX = last.x + (drawX - last.x) * (s / steps);
           const lerpY = last.y + (drawY - last.y) * (s / steps);
-          paintClone(ctx, getSymmetricPoints(lerpX, lerpY));
+          paintClone(ctx, getSymmetricPoints(lerpX, lerpY), size);
         }
       } else if (brushType === 'spray') {
-        points.forEach(p => sprayPaint(ctx, p.x, p.y));
+        points.forEach(p => sprayPaint(ctx, p.x, p.y, factors));
       } else if (brushShape === 'textured' && brushTipCanvasRef.current) {
-        const steps = Math.ceil(dist / Math.max(1, brushSize / 8));
+        const steps = Math.ceil(dist / Math.max(1, size / 8));
         for (let s = 0; s <= steps; s++) {
           const t = s / steps;
           points.forEach((p, i) => {
             const lp = lastPoints[i];
             const curX = lp.x + (p.x - lp.x) * t;
             const curY = lp.y + (p.y - lp.y) * t;
-            ctx.drawImage(brushTipCanvasRef.current!, curX - brushSize, curY - brushSize);
+            ctx.drawImage(brushTipCanvasRef.current!, curX - size, curY - size, size * 2, size * 2);
           });
         }
       } else {
@@ -732,96 +2228,469 @@ const App: React.FC = () => {
         });
         ctx.stroke();
       }
+      if (maskDab) applyMaskDab(target, maskDab, [...points, ...lastPoints]);
+      restoreOutsideSelection(target, [...points, ...lastPoints]);
+    }
+
+    lastDrawPointRef.current = { x: drawX, y: drawY };
+    needsCompositeRef.current = true;
+  };
+
+  const handleLostPointerCapture = (e: React.PointerEvent) => {
+    // Capture is also released after a normal pointerup, by which point the finger is already gone
+    if (e.pointerType === 'touch' && touchPointsRef.current.has(e.pointerId)) handlePointerUp(e);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (e.pointerType === 'touch') {
+      touchPointsRef.current.delete(e.pointerId);
+      if (pinchRef.current) {
+        // Lifting one finger ends the gesture; the other one doesn't start painting
+        if (touchPointsRef.current.size < 2) { pinchRef.current = null; setIsPanning(false); }
+        return;
+      }
     }
+    setIsPanning(false);
+    if (isCropping) setCropHandle(null);
+    if (selectionDraftRef.current) finishSelectionDraft();
+    const gradientDrag = gradientDragRef.current;
+    gradientDragRef.current = null;
+    // A click without a drag leaves the layer untouched
+    if (gradientDrag?.to) commitPixelEdit(gradientDrag.target);
+    transformDragRef.current = null;
+    if (textDragRef.current) { textDragRef.current = null; commitLayerEdit(); }
+    const shapeDrag = shapeDragRef.current;
+    if (shapeDrag) {
+      shapeDragRef.current = null;
+      const shape = layers.find(l => l.id === shapeDrag.id)?.shape;
+      if (shapeDrag.handle === 'create' && shape && Math.abs(shape.width) < 2 && Math.abs(shape.height) < 2) {
+        // A click without a drag doesn't leave an invisible shape behind
+        setLayers(layers.filter(l => l.id !== shapeDrag.id));
+        setActiveLayerId(shapeDrag.previousLayerId);
+      } else {
+        commitLayerEdit();
+      }
+    }
+    cachedBoundingRectRef.current = null;
+    if (isDrawing) {
+      setIsDrawing(false);
+      lastDrawPointRef.current = null;
+      smoothedPointRef.current = null;
+      strokeDistanceRef.current = 0;
+      const b = strokeBoundsRef.current;
+      if (!isInpainting && strokeCanvasRef.current && b) {
+        // Pad by the brush footprint: spray and textured tips reach a full brush size out.
+        const pad = brushSize + 2;
+        commitPixelEdit(strokeCanvasRef.current, { x: b.minX - pad, y: b.minY - pad, width: b.maxX - b.minX + pad * 2, height: b.maxY - b.minY + pad * 2 });
+      }
+      strokeCanvasRef.current = null;
+      strokeBoundsRef.current = null;
+      unclippedStrokeRef.current = null;
+    }
+  };
+
+  const getTouchPoints = () => {
+    const points: { x: number, y: number }[] = [];
+    touchPointsRef.current.forEach(p => points.push(p));
+    return points;
+  };
+
+  // A second finger turns the touch into a pinch, so whatever the first one started is undone.
+  const startPinch = () => {
+    if (isDrawing && strokeCanvasRef.current) {
+      restorePixelBackup(strokeCanvasRef.current);
+      setIsDrawing(false);
+      lastDrawPointRef.current = null;
+      smoothedPointRef.current = null;
+      strokeCanvasRef.current = null;
+      strokeBoundsRef.current = null;
+      unclippedStrokeRef.current = null;
+    }
+    if (gradientDragRef.current) {
+      restorePixelBackup(gradientDragRef.current.target);
+      gradientDragRef.current = null;
+    }
+    selectionDraftRef.current = null;
+    drawSelectionOverlay();
+    if (isCropping) setCropHandle(null);
+    // Drags are put back where they started; pointer up won't see them while the pinch lasts
+    const transformDrag = transformDragRef.current;
+    if (transformDrag) { setLayerTransform(transformDrag.origin); transformDragRef.current = null; }
+    const textDrag = textDragRef.current;
+    if (textDrag) { handleUpdateText(textDrag.id, textDrag.origin); textDragRef.current = null; }
+    const shapeDrag = shapeDragRef.current;
+    if (shapeDrag) {
+      shapeDragRef.current = null;
+      if (shapeDrag.handle === 'create') {
+        setLayers(prev => prev.filter(l => l.id !== shapeDrag.id));
+        setActiveLayerId(shapeDrag.previousLayerId);
+      } else {
+        handleUpdateShape(shapeDrag.id, shapeDrag.origin);
+      }
+    }
+
+    const [a, b] = getTouchPoints();
+    const container = containerRef.current?.getBoundingClientRect();
+    if (!container) return;
+    // Where the pinch midpoint sits in unscaled canvas space, relative to the view center
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const center = { x: container.left + container.width / 2, y: container.top + container.height / 2 };
+    pinchRef.current = {
+      distance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+      offset: { x: (mid.x - center.x - transform.x) / transform.scale, y: (mid.y - center.y - transform.y) / transform.scale },
+      scale: transform.scale,
+    };
+    setIsPanning(true);
+  };
+
+  // Scale by the change in finger distance and keep the point under the fingers in place.
+  const updatePinch = () => {
+    const pinch = pinchRef.current;
+    const container = containerRef.current?.getBoundingClientRect();
+    if (!pinch || !container) return;
+    const [a, b] = getTouchPoints();
+    if (!a || !b) return;
+    const scale = Math.max(0.1, Math.min(10, pinch.scale * Math.hypot(a.x - b.x, a.y - b.y) / pinch.distance));
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const center = { x: container.left + container.width / 2, y: container.top + container.height / 2 };
+    setTransform({ x: mid.x - center.x - pinch.offset.x * scale, y: mid.y - center.y - pinch.offset.y * scale, scale });
+  };
+
+  const setHistoryState = (entries: HistoryState[], step: number) => {
+    historyRef.current = { entries, step };
+    setHistory(entries);
+    setHistoryStep(step);
+  };
+
+  const pushHistory = (entry: HistoryState) => {
+    const next = pushHistoryEntry(historyRef.current.entries, historyRef.current.step, entry, historyBudget);
+    setHistoryState(next.history, next.step);
+  };
+
+  const resetHistory = (base: Layer[], size: { width: number, height: number }) => {
+    committedStateRef.current = { layers: snapshotLayers(base), size };
+    setHistoryState([], -1);
+  };
+
+  // Records a structural change (layer list, layer properties or canvas size) as a lightweight command.
+  const saveHistory = (currentLayers: Layer[] = layers, w: number = canvasSize.width, h: number = canvasSize.height) => {
+    const after: StackState = { layers: snapshotLayers(currentLayers), size: { width: w, height: h } };
+    pushHistory(createStackEntry(committedStateRef.current, after));
+    committedStateRef.current = after;
+  };
+
+  // Copy the canvas before an in-place edit so only the changed region needs to be stored afterwards.
+  // Puts back the pixels saved by beginPixelEdit, for gestures that are abandoned or redrawn
+  const restorePixelBackup = (canvas: HTMLCanvasElement) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx || !pixelBackupRef.current) return;
+    ctx.save();
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'copy';
+    ctx.drawImage(pixelBackupRef.current, 0, 0);
+    ctx.restore();
+    needsCompositeRef.current = true;
+  };
+
+  const beginPixelEdit = (canvas: HTMLCanvasElement) => {
+    const backup = pixelBackupRef.current ?? document.createElement('canvas');
+    backup.width = canvas.width;
+    backup.height = canvas.height;
+    backup.getContext('2d')?.drawImage(canvas, 0, 0);
+    pixelBackupRef.current = backup;
+  };
+
+  const commitPixelEdit = (canvas: HTMLCanvasElement, rect: Rect = { x: 0, y: 0, width: canvas.width, height: canvas.height }) => {
+    const backup = pixelBackupRef.current;
+    if (!backup) return;
+    const entry = createPixelEntry(canvas, backup, rect);
+    if (entry) pushHistory(entry);
+  };
+
+  const restoreStep = (step: number) => {
+    const { entries, step: current } = historyRef.current;
+    if (step < -1 || step >= entries.length || step === current) return;
+    let restored: StackState | null = null;
+    if (step < current) {
+      for (let i = current; i > step; i--) restored = applyHistoryEntry(entries[i], 'undo') ?? restored;
+    } else {
+      for (let i = current + 1; i <= step; i++) restored = applyHistoryEntry(entries[i], 'redo') ?? restored;
+    }
+    if (restored) {
+      const next = restoreLayers(restored.layers);
+      setCanvasSize(restored.size);
+      setLayers(next);
+      if (!next.find(l => l.id === activeLayerId)) setActiveLayerId(next[next.length - 1]?.id || null);
+      committedStateRef.current = restored;
+    }
+    setHistoryState(entries, step);
+    needsCompositeRef.current = true;
+  };
+
+  const handleSetHistoryBudget = (mb: number) => {
+    setHistoryBudget(mb);
+    storeHistoryBudget(mb);
+    const next = trimHistory(historyRef.current.entries, historyRef.current.step, mb);
+    setHistoryState(next.history, next.step);
+  };
+
+  const getBrushSettings = (): BrushSettings => ({
+    color: brushColor, size: brushSize, type: brushType, shape: brushShape,
+    smoothing: brushSmoothing, jitter: brushJitter, flow: brushFlow, falloff: brushFalloff,
+    dynamics: brushDynamics,
+  });
+
+  const applyBrushSettings = (b: BrushSettings) => {
+    setBrushColor(b.color); setBrushSize(b.size); setBrushType(b.type); setBrushShape(b.shape);
+    setBrushSmoothing(b.smoothing); setBrushJitter(b.jitter); setBrushFlow(b.flow); setBrushFalloff(b.falloff);
+    setBrushDynamics(b.dynamics ?? DEFAULT_BRUSH_DYNAMICS);
+  };
+
+  const buildProject = (name: string = projectName): ProjectFile =>
+    serializeProject(name, layers, canvasSize, activeLayerId, getBrushSettings(), documentBackground);
+
+  const saveSession = async () => {
+    if (!canvasRef.current) return;
+    let name = projectName;
+    if (!projectId) {
+      const entered = prompt("Project name", projectName);
+      if (entered === null) return;
+      name = entered.trim() || 'Untitled';
+    }
+    const id = projectId ?? Date.now().toString();
+    try {
+      await saveProject({ id, name, updatedAt: Date.now(), thumbnail: createProjectThumbnail(canvasRef.current), project: buildProject(name) });
+      setProjectId(id); setProjectName(name);
+      loadProjects(); alert("Project saved!");
+    } catch (e) { console.error(e); alert("Project save failed."); }
+  };
+
+  const openProject = async (project: ProjectFile, id: string | null = null) => {
+    try {
+      const images = await loadLayerImages(project);
+      const { width, height } = project.canvasSize;
+      const restored = project.layers.map((pl, i) => {
+        const l = createLayer(pl.name, width, height);
+        l.id = pl.id; l.visible = pl.visible; l.opacity = pl.opacity; l.blendMode = pl.blendMode;
+        l.kind = pl.kind; l.adjustment = pl.adjustment; l.text = pl.text; l.parentId = pl.parentId;
+        // Projects saved before shapes kept their own symmetry center mirrored around the canvas center
+        l.shape = pl.shape && { ...pl.shape, symmetryCenter: pl.shape.symmetryCenter ?? { x: width / 2, y: height / 2 } };
+        l.lockPixels = pl.lockPixels; l.lockAlpha = pl.lockAlpha;
+        l.canvas.getContext('2d')?.drawImage(images[i].image, 0, 0);
+        const maskImage = images[i].mask;
+        if (maskImage) {
+          l.mask = createMask(width, height, false);
+          l.mask.getContext('2d')?.drawImage(maskImage, 0, 0);
+          l.maskEnabled = pl.maskEnabled ?? true;
+        }
+        return l;
+      });
+      applyBrushSettings(project.brush);
+      setDocumentBackground(project.background);
+      setProjectId(id); setProjectName(project.name); setEditorParentId(null);
+      setCanvasSize({ width, height });
+      setLayers(restored);
+      setActiveLayerId(restored.find(l => l.id === project.activeLayerId)?.id ?? restored[restored.length - 1]?.id ?? null);
+      resetHistory(restored, { width, height });
+      fitCanvasToView(width, height);
+      needsCompositeRef.current = true;
+    } catch (e: any) {
+      console.error(e);
+      alert(`Failed to open project: ${e.message}`);
+    }
+  };
 
-    lastDrawPointRef.current = { x: drawX, y: drawY };
-    needsCompositeRef.current = true;
+  const handleOpenProjectFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0]; if (!f) return;
+    e.target.value = '';
+    const r = new FileReader();
+    r.onload = ev => {
+      try { openProject(parseProject(ev.target?.result as string)); }
+      catch (err: any) { alert(err.message); }
+    };
+    r.readAsText(f);
   };
 
-  const handlePointerUp = () => {
-    setIsPanning(false);
-    if (isCropping) setCropHandle(null);
-    cachedBoundingRectRef.current = null;
-    if (isDrawing) {
-      setIsDrawing(false);
-      lastDrawPointRef.current = null;
-      smoothedPointRef.current = null;
-      strokeDistanceRef.current = 0;
-      saveHistory();
-    }
+  const loadSession = () => {
+    if (savedProjects.length > 0) { openProject(savedProjects[0].project, savedProjects[0].id); return; }
+    // Sessions saved before the project format only kept the flattened image.
+    const s = localStorage.getItem('magicLens_session');
+    if (s) { const data = JSON.parse(s); setBrushColor(data.brushColor); setBrushSize(data.brushSize); initEditorWithImage(data.image); }
   };
 
-  const saveHistory = (currentLayers: Layer[] = layers, w: number = canvasSize.width, h: number = canvasSize.height) => {
-    const snapshots: LayerSnapshot[] = currentLayers.map(l => ({
-      id: l.id, name: l.name, visible: l.visible, opacity: l.opacity, blendMode: l.blendMode,
-      imageData: l.canvas.getContext('2d')!.getImageData(0, 0, l.canvas.width, l.canvas.height)
-    }));
-    const newHistory = history.slice(0, historyStep + 1);
-    newHistory.push({ layers: snapshots, size: { width: w, height: h } });
-    if (newHistory.length > 20) newHistory.shift();
-    else setHistoryStep(newHistory.length - 1);
-    setHistory(newHistory);
+  const toggleInpainting = () => {
+    if (!isInpainting && brushType === 'clone') setBrushType('pen');
+    setIsInpainting(!isInpainting);
   };
 
-  const restoreStep = (step: number) => {
-    const s = history[step]; if (!s) return;
-    setCanvasSize(s.size);
-    const restored: Layer[] = s.layers.map(ls => {
-      const l = createLayer(ls.name, s.size.width, s.size.height);
-      l.id = ls.id; l.visible = ls.visible; l.opacity = ls.opacity; l.blendMode = ls.blendMode;
-      l.canvas.getContext('2d')?.putImageData(ls.imageData, 0, 0);
-      return l;
-    });
-    setLayers(restored);
-    if (!restored.find(l => l.id === activeLayerId)) setActiveLayerId(restored[restored.length - 1]?.id || null);
-    setHistoryStep(step);
-    needsCompositeRef.current = true;
+  const clearInpaintMask = () => {
+    const mask = inpaintMaskRef.current;
+    mask?.getContext('2d')?.clearRect(0, 0, mask.width, mask.height);
   };
 
-  const saveSession = () => {
-    if (!canvasRef.current) return;
-    try {
-      localStorage.setItem('magicLens_session', JSON.stringify({ image: canvasRef.current.toDataURL(), brushColor, brushSize, brushType, transform }));
-      setHasSavedSession(true); alert("Session saved!");
-    } catch (e) { alert("Session save failed (too large)."); }
+  // Alpha of the area a magic edit may change: the painted inpaint mask, limited to the
+  // selection if there is one, or the selection alone when not inpainting.
+  const getEditRegion = (): HTMLCanvasElement | null => {
+    const painted = isInpainting ? inpaintMaskRef.current : null;
+    if (painted) return selection ? clipToSelection(painted, selection) : clipToSelection(painted, selectAll(painted.width, painted.height));
+    return selection ? clipToSelection(selection, selection) : null;
   };
 
-  const loadSession = () => {
-    const s = localStorage.getItem('magicLens_session');
-    if (s) { const data = JSON.parse(s); setBrushColor(data.brushColor); setBrushSize(data.brushSize); initEditorWithImage(data.image); }
+  // Flattens an edit region into an opaque black/white mask (white = editable).
+  // Returns null when nothing in it is set.
+  const buildInpaintMask = (src: HTMLCanvasElement): HTMLCanvasElement | null => {
+    const srcCtx = src.getContext('2d');
+    if (!srcCtx) return null;
+    const data = srcCtx.getImageData(0, 0, src.width, src.height);
+    let painted = false;
+    for (let i = 0; i < data.data.length; i += 4) {
+      const v = data.data[i + 3] > 0 ? 255 : 0;
+      if (v) painted = true;
+      data.data[i] = data.data[i + 1] = data.data[i + 2] = v;
+      data.data[i + 3] = 255;
+    }
+    if (!painted) return null;
+    const c = document.createElement('canvas'); c.width = src.width; c.height = src.height;
+    c.getContext('2d')?.putImageData(data, 0, 0);
+    return c;
+  };
+
+  // The canvas an edit was made from is stored as a 'source' record so results can be traced back through it.
+  const saveEditResults = async (image: string, results: string[], prompt: string, region: HTMLCanvasElement | null): Promise<GeneratedImage[]> => {
+    const timestamp = Date.now();
+    const sourceId = `source-${timestamp}`;
+    await saveItem({ id: sourceId, type: 'source', src: image, prompt: projectName, timestamp, parentId: editorParentId ?? undefined });
+    const params = { providerId: getEditProvider().id, masked: !!region, mask: region?.toDataURL('image/png') };
+    const saved: GeneratedImage[] = results.map((url, i) => ({ url, prompt, id: `edit-${timestamp}-${i}` }));
+    for (const r of saved) {
+      await saveItem({ id: r.id, type: 'edited', src: r.url, prompt, timestamp, params, parentId: sourceId });
+    }
+    loadGallery();
+    return saved;
   };
 
   const handleMagicEdit = async () => {
     if (!canvasRef.current || !editPrompt) return;
+    let mask: HTMLCanvasElement | null = null;
+    let maskAlpha: HTMLCanvasElement | null = null;
+    const region = getEditRegion();
+    if (region) {
+      mask = buildInpaintMask(region);
+      if (!mask) { alert(isInpainting ? "Paint the area you want to change first." : "The selection is empty."); return; }
+      // Keep the region's alpha (soft edges included) to composite the result back later.
+      maskAlpha = region;
+    }
     setIsEditing(true);
     try {
-      const res = await editImage(canvasRef.current.toDataURL('image/png'), editPrompt);
-      setEditedImages(res);
+      const image = canvasRef.current.toDataURL('image/png');
+      const res = await getEditProvider().edit({ image, prompt: editPrompt, mask: mask?.toDataURL('image/png') });
+      setEditMask(maskAlpha);
+      setEditedImages(await saveEditResults(image, res, editPrompt, maskAlpha));
     } catch (e: any) {
       console.error(e);
       alert("Edit failed.");
     } finally { setIsEditing(false); }
   };
 
-  const handleRemoveBackground = async () => {
-    if (!canvasRef.current) return;
+  // -- Background removal --
+  // Cuts the active layer out with a mask; its pixels stay as they are.
+  const handleRemoveBackground = () => {
+    const layer = activeLayer;
+    if (!layer || !isRasterLayer(layer)) { alert("Select a pixel layer to remove its background."); return; }
+    // Decontamination rewrites edge pixels, which neither lock allows
+    if (layer.lockPixels || layer.lockAlpha) { alert("Unlock the layer to remove its background."); return; }
+    const image = layer.canvas.getContext('2d')?.getImageData(0, 0, layer.canvas.width, layer.canvas.height);
+    if (!image) return;
+    setCutout({ original: layer, image, response: null });
+    if (cutoutSettings.method === 'ai') fetchCutoutResponse(layer);
+  };
+
+  const fetchCutoutResponse = async (layer: Layer) => {
     setIsEditing(true);
     try {
-      const res = await editImage(canvasRef.current.toDataURL('image/png'), "Remove the background from this image. Keep the subject isolated and visible.");
-      setEditedImages(res);
+      const [url] = await getEditProvider().edit({ image: layer.canvas.toDataURL('image/png'), prompt: CUTOUT_PROMPT });
+      if (!url) throw new Error("The model returned no image");
+      const img = new Image();
+      img.src = url;
+      await img.decode();
+      // Responses may come back at another resolution; the mask has to line up with the layer
+      const c = document.createElement('canvas'); c.width = layer.canvas.width; c.height = layer.canvas.height;
+      const ctx = c.getContext('2d')!;
+      ctx.drawImage(img, 0, 0, c.width, c.height);
+      const response = ctx.getImageData(0, 0, c.width, c.height);
+      setCutout(prev => prev && prev.original.id === layer.id ? { ...prev, response } : prev);
     } catch (e: any) {
       console.error(e);
-      alert("Background removal failed.");
+      alert("Background removal failed. Try Color Key instead.");
+      setCutoutSettings(s => ({ ...s, method: 'colorKey' }));
     } finally { setIsEditing(false); }
   };
 
-  const handleApplyResult = (src: string) => {
-    const img = new Image(); img.src = src;
+  const handleSetCutoutMethod = (method: CutoutSettings['method']) => {
+    setCutoutSettings(s => ({ ...s, method }));
+    if (method === 'ai' && cutout && !cutout.response && !isEditing) fetchCutoutResponse(cutout.original);
+  };
+
+  // Recomputed after the sliders settle; the preview replaces the layer without touching history.
+  // An enabled mask the layer already has is kept: the cutout only hides more. A disabled one
+  // isn't in effect, so the cutout replaces it.
+  useEffect(() => {
+    if (!cutout) return;
+    const { original, image, response } = cutout;
+    if (cutoutSettings.method === 'ai' && !response) return;
+    const timer = setTimeout(() => {
+      const tolerance = Math.round(cutoutSettings.tolerance * 2.55);
+      const foreground = response && cutoutSettings.method === 'ai' ? foregroundFromResponse(response, tolerance) : keyOutBackground(image, tolerance, true);
+      const { mask: cut, pixels } = buildCutout(image, foreground, cutoutSettings);
+      let mask = cut;
+      if (original.mask && original.maskEnabled) {
+        mask = document.createElement('canvas'); mask.width = cut.width; mask.height = cut.height;
+        const mctx = mask.getContext('2d')!;
+        mctx.drawImage(original.mask, 0, 0);
+        mctx.globalCompositeOperation = 'destination-in';
+        mctx.drawImage(cut, 0, 0);
+      }
+      let canvas = original.canvas;
+      if (pixels) {
+        canvas = document.createElement('canvas'); canvas.width = image.width; canvas.height = image.height;
+        canvas.getContext('2d')?.putImageData(pixels, 0, 0);
+      }
+      setLayers(prev => prev.map(l => l.id === original.id ? { ...original, canvas, mask, maskEnabled: true } : l));
+    }, 150);
+    return () => clearTimeout(timer);
+  }, [cutout, cutoutSettings]);
+
+  const handleApplyCutout = () => {
+    setCutout(null);
+    commitLayerEdit();
+  };
+
+  const handleCancelCutout = () => {
+    if (!cutout) return;
+    setLayers(prev => prev.map(l => l.id === cutout.original.id ? cutout.original : l));
+    setCutout(null);
+  };
+
+  // With `masked`, the result gets a hide-all mask so it can be painted in only where it helps.
+  const handleApplyResult = (result: GeneratedImage, masked = false) => {
+    const img = new Image(); img.src = result.url;
     img.onload = () => {
-      const l = createLayer(`Magic Result`, canvasSize.width, canvasSize.height);
-      l.canvas.getContext('2d')?.drawImage(img, 0, 0, canvasSize.width, canvasSize.height);
+      const l = createLayer(editMask ? `Magic Inpaint` : `Magic Result`, canvasSize.width, canvasSize.height);
+      if (masked) { l.mask = createMask(canvasSize.width, canvasSize.height, false); l.maskEnabled = true; }
+      const ctx = l.canvas.getContext('2d');
+      if (ctx) {
+        ctx.drawImage(img, 0, 0, canvasSize.width, canvasSize.height);
+        if (editMask) {
+          // Only the masked pixels change; everything else stays transparent so the original shows through.
+          ctx.globalCompositeOperation = 'destination-in';
+          ctx.drawImage(editMask, 0, 0, canvasSize.width, canvasSize.height);
+          ctx.globalCompositeOperation = 'source-over';
+        }
+      }
       const newLayers = [...layers, l];
-      setLayers(newLayers); setActiveLayerId(l.id); setEditedImages([]); saveHistory(newLayers);
+      setLayers(newLayers); setActiveLayerId(l.id); setEditedImages([]); setEditorParentId(result.id); saveHistory(newLayers);
+      if (masked) setIsEditingMask(true);
+      if (editMask) { clearInpaintMask(); setIsInpainting(false); setEditMask(null); }
     };
   };
 
@@ -833,32 +2702,65 @@ const App: React.FC = () => {
 
   const handleRotateCanvas = (deg: number) => {
     const w = canvasSize.height, h = canvasSize.width;
-    const next = layers.map(l => {
-      const c = document.createElement('canvas'); c.width = w; c.height = h;
-      const ctx = c.getContext('2d')!; ctx.save(); ctx.translate(w / 2, h / 2); ctx.rotate(deg * Math.PI / 180); ctx.drawImage(l.canvas, -l.canvas.width / 2, -l.canvas.height / 2); ctx.restore();
-      return { ...l, canvas: c };
-    });
+    const a = deg * Math.PI / 180;
+    const next = layers.map(l => remapLayer(l, w, h, (ctx, src) => {
+      ctx.translate(w / 2, h / 2); ctx.rotate(a); ctx.drawImage(src, -src.width / 2, -src.height / 2);
+    }, new DOMMatrix().translate(w / 2, h / 2).rotate(deg).translate(-canvasSize.width / 2, -canvasSize.height / 2)));
     setCanvasSize({ width: w, height: h });
     setLayers(next); saveHistory(next, w, h);
   };
 
   const applyResize = () => {
     const w = resizeWidth, h = resizeHeight;
-    const next = layers.map(l => {
-      const c = document.createElement('canvas'); c.width = w; c.height = h;
-      c.getContext('2d')?.drawImage(l.canvas, 0, 0, w, h); return { ...l, canvas: c };
-    });
+    const sx = w / canvasSize.width, sy = h / canvasSize.height;
+    const next = layers.map(l => remapLayer(l, w, h, (ctx, src) => ctx.drawImage(src, 0, 0, w, h), new DOMMatrix().scale(sx, sy)));
+    setCanvasSize({ width: w, height: h });
+    setLayers(next); saveHistory(next, w, h); setShowResizeDialog(false);
+  };
+
+  // Layers keep their pixels and move with the anchor; added margins are transparent.
+  // With `outpaint`, the model is then asked to fill the margins.
+  const applyCanvasSize = (outpaint: boolean) => {
+    const w = resizeWidth, h = resizeHeight;
+    if (w < 1 || h < 1) return;
+    if (outpaint && w <= canvasSize.width && h <= canvasSize.height) { alert("Make the canvas larger to have something to fill."); return; }
+    const dx = Math.round((w - canvasSize.width) * resizeAnchor.x), dy = Math.round((h - canvasSize.height) * resizeAnchor.y);
+    const next = layers.map(l => remapLayer(l, w, h, (ctx, src) => ctx.drawImage(src, dx, dy), new DOMMatrix().translate(dx, dy)));
+    const kept = { x: dx, y: dy, w: canvasSize.width, h: canvasSize.height };
     setCanvasSize({ width: w, height: h });
     setLayers(next); saveHistory(next, w, h); setShowResizeDialog(false);
+    if (outpaint) handleOutpaint(next, w, h, kept);
+  };
+
+  // Sends the padded composite with everything outside `kept` editable. The results go to the
+  // usual result picker and are clipped to the new margins when applied.
+  const handleOutpaint = async (next: Layer[], width: number, height: number, kept: { x: number, y: number, w: number, h: number }) => {
+    const padded = document.createElement('canvas'); padded.width = width; padded.height = height;
+    const ctx = padded.getContext('2d');
+    if (!ctx) return;
+    compositeLayers(ctx, next);
+    const region = selectAll(width, height);
+    region.getContext('2d')?.clearRect(kept.x, kept.y, kept.w, kept.h);
+    const mask = buildInpaintMask(region);
+    if (!mask) return;
+    const prompt = editPrompt.trim() || "Extend the image into the empty margins, continuing the scene seamlessly with the same perspective, lighting and style.";
+    setIsEditing(true);
+    try {
+      const image = padded.toDataURL('image/png');
+      const res = await getEditProvider().edit({ image, prompt, mask: mask.toDataURL('image/png') });
+      setEditMask(region);
+      setEditedImages(await saveEditResults(image, res, prompt, region));
+    } catch (e: any) {
+      console.error(e);
+      alert("Outpainting failed. The canvas was still extended; undo to go back.");
+    } finally { setIsEditing(false); }
   };
 
   const applyCrop = () => {
     if (!cropRect) return;
     const w = Math.floor(cropRect.w), h = Math.floor(cropRect.h);
-    const next = layers.map(l => {
-      const c = document.createElement('canvas'); c.width = w; c.height = h;
-      c.getContext('2d')?.drawImage(l.canvas, cropRect.x, cropRect.y, cropRect.w, cropRect.h, 0, 0, w, h); return { ...l, canvas: c };
-    });
+    const sx = w / cropRect.w, sy = h / cropRect.h;
+    const next = layers.map(l => remapLayer(l, w, h, (ctx, src) => ctx.drawImage(src, cropRect.x, cropRect.y, cropRect.w, cropRect.h, 0, 0, w, h), new DOMMatrix().scale(sx, sy).translate(-cropRect.x, -cropRect.y)));
     setCanvasSize({ width: w, height: h });
     setLayers(next); saveHistory(next, w, h); setIsCropping(false); setCropRect(null);
   };
@@ -889,8 +2791,12 @@ const App: React.FC = () => {
         const img = new Image(); img.src = ev.target?.result as string;
         img.onload = () => {
           const l = createLayer(`Image`, canvasSize.width, canvasSize.height);
-          l.canvas.getContext('2d')?.drawImage(img, 0, 0, canvasSize.width, canvasSize.height);
+          // Keep the image's proportions, centered, and hand it to the transform tool to place
+          const fit = Math.min(1, canvasSize.width / img.width, canvasSize.height / img.height);
+          const w = img.width * fit, h = img.height * fit;
+          l.canvas.getContext('2d')?.drawImage(img, (canvasSize.width - w) / 2, (canvasSize.height - h) / 2, w, h);
           setLayers(p => [...p, l]); setActiveLayerId(l.id); saveHistory([...layers, l]);
+          startTransform(l);
         };
       }; r.readAsDataURL(f);
     }
@@ -916,6 +2822,145 @@ const App: React.FC = () => {
     (e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId);
   };
 
+  // -- Keyboard shortcuts --
+  const stepBrushSize = (dir: 1 | -1) => setBrushSize(s => Math.min(150, Math.max(2, s + dir * Math.max(1, Math.round(s * 0.1)))));
+
+  const selectAdjacentLayer = (dir: 1 | -1) => {
+    const rows = flattenLayerTree(layers, new Set(collapsedGroups)).map(r => r.layer);
+    const i = rows.findIndex(l => l.id === activeLayerId);
+    const next = rows[i + dir];
+    if (next) { setActiveLayerId(next.id); setIsEditingMask(false); }
+  };
+
+  const selectTool = (type: typeof brushType) => {
+    if (isInpainting && type === 'clone') return;
+    setBrushType(type);
+  };
+
+  // Actions for the commands in SHORTCUT_COMMANDS. Hold commands get `released` on key up.
+  const shortcutActions: Record<string, (released: boolean) => void> = {
+    undo: handleUndo,
+    redo: handleRedo,
+    save: saveSession,
+    cancel: () => {
+      if (showShortcuts) setShowShortcuts(false);
+      else if (lineage) setLineage(null);
+      else if (exportTarget) setExportTarget(null);
+      else if (mode !== AppMode.EDIT) return;
+      else if (cutout) handleCancelCutout();
+      else if (transformTarget) handleCancelTransform();
+      else if (isCropping) toggleCrop();
+      else if (selection) setSelection(null);
+      else if (showBrushSettings) setShowBrushSettings(false);
+      else if (showToolsMenu) setShowToolsMenu(false);
+    },
+    shortcuts: () => setShowShortcuts(v => !v),
+    'tool.pen': () => selectTool('pen'),
+    'tool.eraser': () => selectTool('eraser'),
+    'tool.marker': () => selectTool('marker'),
+    'tool.spray': () => selectTool('spray'),
+    'tool.clone': () => selectTool('clone'),
+    'tool.pan': () => selectTool('pan'),
+    'tool.panHold': (released) => {
+      if (!released) {
+        if (brushType !== 'pan') { panHoldPrevRef.current = brushType; setBrushType('pan'); }
+      } else if (panHoldPrevRef.current) {
+        setBrushType(panHoldPrevRef.current);
+        setIsPanning(false);
+        panHoldPrevRef.current = null;
+      }
+    },
+    'tool.marquee': () => selectTool('marquee'),
+    'tool.lasso': () => selectTool('lasso'),
+    'tool.wand': () => selectTool('wand'),
+    'tool.text': () => selectTool('text'),
+    'tool.shape': () => selectTool('shape'),
+    'tool.bucket': () => selectTool('bucket'),
+    'tool.gradient': () => selectTool('gradient'),
+    'tool.crop': toggleCrop,
+    'tool.inpaint': toggleInpainting,
+    'brush.smaller': () => stepBrushSize(-1),
+    'brush.larger': () => stepBrushSize(1),
+    'brush.settings': () => setShowBrushSettings(v => !v),
+    'view.zoomIn': handleZoomIn,
+    'view.zoomOut': handleZoomOut,
+    'view.fit': handleResetZoom,
+    'select.all': handleSelectAll,
+    'select.none': handleDeselect,
+    'select.invert': handleInvertSelection,
+    'select.feather': handleFeatherSelection,
+    'edit.copy': handleCopySelection,
+    'edit.cut': handleCutSelection,
+    'edit.paste': handlePasteAsLayer,
+    'edit.clear': handleClearLayer,
+    'edit.fill': handleFillSelection,
+    'layer.new': handleAddLayer,
+    'layer.viaCopy': handleLayerViaCopy,
+    'layer.duplicate': handleDuplicateLayer,
+    'layer.group': handleGroupLayer,
+    'layer.ungroup': handleUngroup,
+    'layer.mergeDown': handleMergeDown,
+    'layer.mergeVisible': handleMergeVisible,
+    'layer.transform': () => transformTarget ? handleApplyTransform() : startTransform(activeLayer),
+    'layer.applyTransform': handleApplyTransform,
+    'layer.above': () => selectAdjacentLayer(1),
+    'layer.below': () => selectAdjacentLayer(-1),
+    'layer.panel': () => setShowLayerPanel(v => !v),
+  };
+
+  const isTextInput = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (target.isContentEditable || target.matches('textarea, select') ||
+      (target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button', 'color', 'file'].includes(target.type)));
+
+  keyHandlersRef.current = {
+    down: (e) => {
+      const combo = eventToCombo(e);
+      if (!combo) return;
+      if (remappingCommand) {
+        e.preventDefault();
+        if (combo !== 'Escape') {
+          const next = rebindCommand(keymap, remappingCommand, combo);
+          setKeymap(next); storeKeymap(next);
+        }
+        setRemappingCommand(null);
+        return;
+      }
+      if (isTextInput(e.target)) return;
+      const command = findCommand(keymap, combo);
+      if (!command) return;
+      // Editor commands need an open image and must not switch tools mid-stroke
+      if (!command.global && (mode !== AppMode.EDIT || layers.length === 0 || isDrawing)) return;
+      e.preventDefault();
+      if (e.repeat && !command.repeat) return;
+      if (command.hold) heldShortcutRef.current = { id: command.id, key: comboKey(combo) };
+      shortcutActions[command.id]?.(false);
+    },
+    up: (e) => {
+      const held = heldShortcutRef.current;
+      if (!held || comboKey(eventToCombo(e) ?? '') !== held.key) return;
+      heldShortcutRef.current = null;
+      shortcutActions[held.id]?.(true);
+    },
+  };
+
+  useEffect(() => {
+    const down = (e: KeyboardEvent) => keyHandlersRef.current.down(e);
+    const up = (e: KeyboardEvent) => keyHandlersRef.current.up(e);
+    window.addEventListener('keydown', down);
+    window.addEventListener('keyup', up);
+    return () => { window.removeEventListener('keydown', down); window.removeEventListener('keyup', up); };
+  }, []);
+
+  const handleResetShortcut = (id: string) => {
+    const next = { ...keymap, [id]: defaultKeymap()[id] };
+    setKeymap(next); storeKeymap(next);
+  };
+
+  const handleResetAllShortcuts = () => {
+    const next = defaultKeymap();
+    setKeymap(next); storeKeymap(next);
+  };
+
   const NavBtn = ({ active, onClick, icon, label, vertical = false, tooltip }: any) => (
     <Tooltip text={tooltip || label} position={vertical ? 'right' : 'top'}>
       <button onClick={onClick} className={`flex ${vertical ? 'flex-col gap-2 p-3 w-16' : 'flex-col gap-1 w-full'} items-center justify-center rounded-xl transition-all ${active ? 'text-indigo-400 bg-white/5' : 'text-gray-500 hover:text-gray-300 hover:bg-white/5'}`}>
@@ -933,7 +2978,8 @@ const App: React.FC = () => {
     </Tooltip>
   );
 
-  const CropHandle = ({ type }: { type: CropHandleType }) => {
+  // Also used for the resize handles of the selected shape, through `onGrab`
+  const CropHandle = ({ type, onGrab }: { type: CropHandleType, onGrab?: (type: CropHandleType) => void }) => {
     const posMap: Record<CropHandleType, string> = {
       nw: '-top-1.5 -left-1.5 cursor-nw-resize',
       n: '-top-1.5 left-1/2 -translate-x-1/2 cursor-n-resize',
@@ -946,8 +2992,16 @@ const App: React.FC = () => {
     };
     return (
       <div
-        onPointerDown={(e) => { e.stopPropagation(); setCropHandle(type); if (canvasRef.current) cachedBoundingRectRef.current = canvasRef.current.getBoundingClientRect(); }}
-        className={`absolute w-3 h-3 bg-indigo-500 border border-white rounded-sm shadow-md z-[60] hover:scale-125 transition-transform ${posMap[type]}`}
+        onPointerDown={(e) => {
+          e.stopPropagation();
+          (onGrab ?? setCropHandle)(type);
+          if (canvasRef.current) {
+            cachedBoundingRectRef.current = canvasRef.current.getBoundingClientRect();
+            // Keep the drag going to the canvas handlers while the pointer is over the handle
+            canvasRef.current.setPointerCapture(e.pointerId);
+          }
+        }}
+        className={`absolute w-3 h-3 bg-indigo-500 border border-white rounded-sm shadow-md z-[60] pointer-events-auto hover:scale-125 transition-transform ${posMap[type]}`}
       />
     );
   };
@@ -972,16 +3026,108 @@ const App: React.FC = () => {
       {showResizeDialog && (
         <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur flex items-center justify-center p-4">
           <div className="bg-gray-900 border border-gray-700 rounded-2xl p-6 w-full max-w-sm shadow-2xl">
-            <h3 className="text-lg font-bold mb-4 text-white">Resize Image</h3>
+            <h3 className="text-lg font-bold mb-4 text-white">{resizeMode === 'image' ? 'Resize Image' : 'Canvas Size'}</h3>
+            <div className="grid grid-cols-2 gap-1 bg-gray-900/50 p-1 rounded-xl mb-4">
+              {([['image', 'Image Size'], ['canvas', 'Canvas Size']] as const).map(([m, label]) => (
+                <button key={m} onClick={() => setResizeMode(m)} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${resizeMode === m ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{label}</button>
+              ))}
+            </div>
             <div className="grid grid-cols-2 gap-4 mb-4">
-              <div><label className="text-xs text-gray-400 uppercase">Width</label><input type="number" value={resizeWidth} onChange={e => { const v = parseInt(e.target.value) || 0; setResizeWidth(v); if (keepAspect) setResizeHeight(Math.round(v * (canvasSize.height / canvasSize.width))); }} className="w-full bg-gray-800 rounded p-2 text-white border border-gray-700" /></div>
-              <div><label className="text-xs text-gray-400 uppercase">Height</label><input type="number" value={resizeHeight} onChange={e => { const v = parseInt(e.target.value) || 0; setResizeHeight(v); if (keepAspect) setResizeWidth(Math.round(v * (canvasSize.width / canvasSize.height))); }} className="w-full bg-gray-800 rounded p-2 text-white border border-gray-700" /></div>
+              <div><label className="text-xs text-gray-400 uppercase">Width</label><input type="number" value={resizeWidth} onChange={e => { const v = parseInt(e.target.value) || 0; setResizeWidth(v); if (keepAspect && resizeMode === 'image') setResizeHeight(Math.round(v * (canvasSize.height / canvasSize.width))); }} className="w-full bg-gray-800 rounded p-2 text-white border border-gray-700" /></div>
+              <div><label className="text-xs text-gray-400 uppercase">Height</label><input type="number" value={resizeHeight} onChange={e => { const v = parseInt(e.target.value) || 0; setResizeHeight(v); if (keepAspect && resizeMode === 'image') setResizeWidth(Math.round(v * (canvasSize.width / canvasSize.height))); }} className="w-full bg-gray-800 rounded p-2 text-white border border-gray-700" /></div>
             </div>
-            <div className="flex gap-2"><button onClick={() => setShowResizeDialog(false)} className="flex-1 py-3 bg-gray-800 rounded-xl font-bold flex items-center justify-center hover:bg-gray-700 transition-all">Cancel</button><button onClick={applyResize} className="flex-1 py-3 bg-indigo-600 rounded-xl font-bold flex items-center justify-center hover:bg-indigo-500 transition-all">Apply</button></div>
+            {resizeMode === 'canvas' && (
+              <div className="flex gap-4 mb-4">
+                <div>
+                  <label className="text-xs text-gray-400 uppercase">Anchor</label>
+                  <div className="grid grid-cols-3 gap-1 mt-1">
+                    {[0, 0.5, 1].flatMap(y => [0, 0.5, 1].map(x => (
+                      <button key={`${x}-${y}`} onClick={() => setResizeAnchor({ x, y })} className={`w-7 h-7 rounded-md border transition-all ${resizeAnchor.x === x && resizeAnchor.y === y ? 'bg-indigo-600 border-indigo-400' : 'bg-gray-800 border-gray-700 hover:bg-gray-700'}`} />
+                    )))}
+                  </div>
+                </div>
+                <div className="flex-1">
+                  <label className="text-xs text-gray-400 uppercase">Extend to</label>
+                  <div className="grid grid-cols-2 gap-1 mt-1">
+                    {([['16:9', 16 / 9], ['4:3', 4 / 3], ['1:1', 1], ['9:16', 9 / 16]] as const).map(([label, ratio]) => (
+                      <button key={label} onClick={() => extendToAspect(ratio)} className="py-1.5 text-[9px] font-black uppercase rounded-lg bg-gray-800 text-gray-400 hover:text-white hover:bg-gray-700 transition-all">{label}</button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+            {resizeMode === 'canvas' ? (
+              <div className="flex gap-2"><button onClick={() => setShowResizeDialog(false)} className="flex-1 py-3 bg-gray-800 rounded-xl font-bold flex items-center justify-center hover:bg-gray-700 transition-all">Cancel</button><button onClick={() => applyCanvasSize(false)} className="flex-1 py-3 bg-gray-700 rounded-xl font-bold flex items-center justify-center hover:bg-gray-600 transition-all">Apply</button><Tooltip text="Fill the new area with AI" position="top" className="flex-1"><button onClick={() => applyCanvasSize(true)} disabled={isEditing} className="w-full py-3 bg-indigo-600 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-indigo-500 disabled:opacity-40 transition-all"><IconWand className="w-4 h-4" /> Outpaint</button></Tooltip></div>
+            ) : (
+              <div className="flex gap-2"><button onClick={() => setShowResizeDialog(false)} className="flex-1 py-3 bg-gray-800 rounded-xl font-bold flex items-center justify-center hover:bg-gray-700 transition-all">Cancel</button><button onClick={applyResize} className="flex-1 py-3 bg-indigo-600 rounded-xl font-bold flex items-center justify-center hover:bg-indigo-500 transition-all">Apply</button></div>
+            )}
           </div>
         </div>
       )}
 
+      {exportTarget && (() => {
+        const format = EXPORT_FORMATS[exportSettings.format];
+        const source = exportTarget.source ?? canvasSize;
+        const dims = getExportDimensions(source);
+        const aspect = source.height / source.width;
+        return (
+          <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur flex items-center justify-center p-4">
+            <div className="bg-gray-900 border border-gray-700 rounded-2xl p-6 w-full max-w-sm shadow-2xl space-y-4">
+              <div className="flex justify-between items-center"><h3 className="text-lg font-bold text-white">Export Image</h3><button onClick={() => setExportTarget(null)} className="text-gray-500 hover:text-white p-1"><IconX className="w-4 h-4" /></button></div>
+              <div className="grid grid-cols-3 gap-1 bg-gray-800/60 p-1 rounded-xl">
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => (
+                  <button key={f} onClick={() => updateExportSettings({ format: f })} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${exportSettings.format === f ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{EXPORT_FORMATS[f].label}</button>
+                ))}
+              </div>
+              {format.lossy && (
+                <div className="space-y-1">
+                  <div className="flex justify-between px-0.5"><span className="text-[8px] font-black uppercase text-gray-500">Quality</span><span className="text-[9px] font-bold text-indigo-400">{exportSettings.quality}</span></div>
+                  <input type="range" min="1" max="100" value={exportSettings.quality} onChange={e => updateExportSettings({ quality: parseInt(e.target.value) })} className="w-full h-1 bg-gray-800 rounded accent-indigo-500" />
+                </div>
+              )}
+              <div className="space-y-2">
+                <span className="text-[8px] font-black uppercase text-gray-500 px-0.5">Size</span>
+                <div className="grid grid-cols-4 gap-1 bg-gray-800/60 p-1 rounded-xl">
+                  {EXPORT_SCALES.map(s => (
+                    <button key={s} onClick={() => updateExportSettings({ scale: s })} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${exportSettings.scale === s ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{s}x</button>
+                  ))}
+                  <button onClick={() => { setExportSize(dims); updateExportSettings({ scale: null }); }} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${exportSettings.scale === null ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>Exact</button>
+                </div>
+                {exportSettings.scale === null ? (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div><label className="text-xs text-gray-400 uppercase">Width</label><input type="number" value={exportSize.width} onChange={e => { const v = parseInt(e.target.value) || 0; setExportSize({ width: v, height: Math.round(v * aspect) }); }} className="w-full bg-gray-800 rounded p-2 text-white border border-gray-700" /></div>
+                    <div><label className="text-xs text-gray-400 uppercase">Height</label><input type="number" value={exportSize.height} onChange={e => { const v = parseInt(e.target.value) || 0; setExportSize({ width: Math.round(v / aspect), height: v }); }} className="w-full bg-gray-800 rounded p-2 text-white border border-gray-700" /></div>
+                  </div>
+                ) : <p className="text-[9px] font-bold text-gray-500 px-0.5">{dims.width} × {dims.height}px</p>}
+              </div>
+              <div className="space-y-2">
+                <span className="text-[8px] font-black uppercase text-gray-500 px-0.5">Background</span>
+                <div className="flex items-center gap-2">
+                  <div className="grid grid-cols-2 gap-1 bg-gray-800/60 p-1 rounded-xl flex-1">
+                    <button onClick={() => updateExportSettings({ background: 'transparent' })} disabled={!format.alpha} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all disabled:opacity-30 ${exportSettings.background === 'transparent' && format.alpha ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>Transparent</button>
+                    <button onClick={() => updateExportSettings({ background: 'matte' })} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${exportSettings.background === 'matte' || !format.alpha ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>Matte</button>
+                  </div>
+                  <input type="color" value={exportSettings.matte} onChange={e => updateExportSettings({ matte: e.target.value })} className="w-8 h-8 rounded bg-transparent cursor-pointer" />
+                </div>
+              </div>
+              {!exportTarget.item && (
+                <div className="grid grid-cols-2 gap-1 bg-gray-800/60 p-1 rounded-xl">
+                  {(['visible', 'active'] as const).map(v => (
+                    <button key={v} onClick={() => updateExportSettings({ layers: v })} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${exportSettings.layers === v ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{v === 'visible' ? 'Visible Layers' : 'Active Layer'}</button>
+                  ))}
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-[8px] font-black uppercase text-gray-500 px-0.5">
+                <input type="checkbox" checked={exportSettings.embedMetadata} onChange={e => updateExportSettings({ embedMetadata: e.target.checked })} className="accent-indigo-500" />
+                Embed {exportTarget.item ? 'prompt and model' : 'title'} in file
+              </label>
+              <p className="text-[9px] font-bold text-gray-500 px-0.5 truncate">{exportTarget.item ? exportFilename(exportTarget.item.prompt, exportTarget.item.timestamp, exportSettings.format) : exportFilename(projectName, Date.now(), exportSettings.format)} · {exportEstimate === null ? '…' : exportEstimate >= 1024 * 1024 ? `${(exportEstimate / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(exportEstimate / 1024)} KB`}</p>
+              <div className="flex gap-2"><button onClick={() => setExportTarget(null)} className="flex-1 py-3 bg-gray-800 rounded-xl font-bold flex items-center justify-center hover:bg-gray-700 transition-all">Cancel</button><button onClick={handleExport} disabled={isExporting} className="flex-1 py-3 bg-indigo-600 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-indigo-500 disabled:opacity-50 transition-all"><IconDownload className="w-4 h-4" /> Export</button></div>
+            </div>
+          </div>
+        );
+      })()}
+
       {showInfoModal && (
         <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-lg flex items-center justify-center p-6 animate-fade-in">
           <div className="bg-[#0f0f11] border border-white/10 rounded-[40px] p-10 max-w-xl w-full shadow-2xl relative overflow-hidden">
@@ -1028,12 +3174,54 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {showShortcuts && (
+        <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-lg flex items-center justify-center p-6 animate-fade-in" onClick={() => { setShowShortcuts(false); setRemappingCommand(null); }}>
+          <div className="bg-[#0f0f11] border border-white/10 rounded-[40px] p-8 max-w-3xl w-full max-h-[85vh] overflow-y-auto custom-scrollbar shadow-2xl relative" onClick={e => e.stopPropagation()}>
+            <div className="absolute top-0 right-0 p-4">
+              <button onClick={() => { setShowShortcuts(false); setRemappingCommand(null); }} className="p-2 text-gray-500 hover:text-white transition-colors"><IconX className="w-6 h-6" /></button>
+            </div>
+            <div className="flex items-center gap-4 mb-8">
+              <h2 className="text-2xl font-black tracking-tight text-white">Keyboard Shortcuts</h2>
+              <button onClick={handleResetAllShortcuts} className="px-3 py-1.5 bg-white/5 rounded-lg text-[8px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">Reset All</button>
+            </div>
+            <p className="text-[10px] text-gray-500 mb-6">Click a shortcut and press the new keys to remap it. Escape cancels.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-10 gap-y-6">
+              {(['General', 'Tools', 'Selection', 'Brush', 'View', 'Layers'] as const).map(group => (
+                <div key={group}>
+                  <div className="text-[8px] font-black uppercase tracking-widest text-indigo-400 mb-2">{group}</div>
+                  <div className="space-y-1">
+                    {SHORTCUT_COMMANDS.filter(c => c.group === group).map(c => {
+                      const keys = keymap[c.id] ?? [];
+                      const isDefault = keys.join() === c.defaultKeys.join();
+                      return (
+                        <div key={c.id} className="flex items-center justify-between gap-3 py-1">
+                          <span className="text-xs text-gray-300">{c.label}</span>
+                          <div className="flex items-center gap-1.5">
+                            <button onClick={() => setRemappingCommand(remappingCommand === c.id ? null : c.id)} className={`flex gap-1 px-2 py-1 rounded-lg border transition-colors ${remappingCommand === c.id ? 'border-indigo-500 bg-indigo-600/20' : 'border-white/5 bg-white/5 hover:border-white/20'}`}>
+                              {remappingCommand === c.id ? <span className="text-[9px] font-black uppercase tracking-widest text-indigo-300">Press keys…</span>
+                                : keys.length === 0 ? <span className="text-[9px] font-bold text-gray-600">Unassigned</span>
+                                : keys.map(k => <kbd key={k} className="text-[10px] font-bold text-white font-mono">{formatCombo(k)}</kbd>)}
+                            </button>
+                            {!isDefault && <Tooltip text="Reset" position="left"><button onClick={() => handleResetShortcut(c.id)} className="p-1 text-gray-500 hover:text-white"><IconUndo className="w-3 h-3" /></button></Tooltip>}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       <header className="p-4 border-b border-gray-800 flex items-center justify-between bg-black/80 backdrop-blur-md z-30 shrink-0">
         <div className="flex items-center gap-2">
           <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-500 flex items-center justify-center shadow-lg"><IconWand className="text-white w-5 h-5" /></div>
           <h1 className="text-xl font-black tracking-tight bg-clip-text text-transparent bg-gradient-to-r from-indigo-400 to-purple-400">MagicLens</h1>
         </div>
         <div className="flex items-center gap-2">
+          <button onClick={() => setShowShortcuts(true)} className="p-2 text-gray-400 hover:text-white hover:bg-white/5 rounded-xl transition-all flex items-center justify-center"><IconKeyboard className="w-5 h-5" /></button>
           <button onClick={() => setShowInfoModal(true)} className="p-2 text-gray-400 hover:text-white hover:bg-white/5 rounded-xl transition-all flex items-center justify-center"><IconInfo className="w-5 h-5" /></button>
         </div>
       </header>
@@ -1052,12 +3240,46 @@ const App: React.FC = () => {
                   <div className="bg-gray-900/50 backdrop-blur border border-white/5 rounded-[30px] md:rounded-[40px] p-6 md:p-8 shadow-2xl space-y-6">
                     <div className="space-y-4">
                       <div className="flex justify-between items-center px-1">
-                        <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Your Prompt</label>
-                        <button onClick={() => setGenPrompt("")} className="text-[10px] font-black uppercase text-indigo-400 hover:text-indigo-300 transition-colors">Clear</button>
+                        <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">{promptListMode ? `Prompt List · ${batchPrompts.length}` : 'Your Prompt'}</label>
+                        <div className="flex items-center gap-4">
+                          <button onClick={() => setPromptListMode(!promptListMode)} className={`text-[10px] font-black uppercase transition-colors ${promptListMode ? 'text-indigo-400' : 'text-gray-600 hover:text-gray-400'}`}>One Per Line</button>
+                          <button onClick={() => setGenPrompt("")} className="text-[10px] font-black uppercase text-indigo-400 hover:text-indigo-300 transition-colors">Clear</button>
+                        </div>
                       </div>
-                      <textarea value={genPrompt} onChange={e => setGenPrompt(e.target.value)} placeholder="A celestial fox dancing in the aurora borealis..." className="w-full bg-gray-950/50 border border-white/5 rounded-2xl md:rounded-3xl p-4 md:p-6 h-40 md:h-48 focus:ring-2 focus:ring-indigo-500/50 transition-all resize-none text-base md:text-lg text-white font-medium outline-none" />
+                      <textarea value={genPrompt} onChange={e => setGenPrompt(e.target.value)} placeholder={promptListMode ? "One prompt per line..." : "A celestial fox dancing in the aurora borealis..."} className="w-full bg-gray-950/50 border border-white/5 rounded-2xl md:rounded-3xl p-4 md:p-6 h-40 md:h-48 focus:ring-2 focus:ring-indigo-500/50 transition-all resize-none text-base md:text-lg text-white font-medium outline-none" />
                     </div>
 
+                    {genProvider.capabilities.references > 0 && (
+                      <div className="space-y-4">
+                        <div className="flex justify-between items-center px-1">
+                          <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">References · {references.length}/{genProvider.capabilities.references}</label>
+                          <div className="flex items-center gap-4">
+                            <label className="text-[10px] font-black uppercase text-indigo-400 hover:text-indigo-300 transition-colors cursor-pointer">Upload<input type="file" className="hidden" accept="image/*" multiple onChange={handleAddReferenceFiles} /></label>
+                            <button onClick={handleAddCanvasReference} className="text-[10px] font-black uppercase text-indigo-400 hover:text-indigo-300 transition-colors">From Editor</button>
+                          </div>
+                        </div>
+                        {references.length > 0 ? (
+                          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                            {references.map((r, i) => (
+                              <div key={i} className="bg-gray-950/50 border border-white/5 rounded-2xl overflow-hidden">
+                                <div className="relative">
+                                  <img src={r.image} className="w-full h-24 object-cover" alt={`Reference ${i + 1}`} />
+                                  <button onClick={() => setReferences(prev => prev.filter((_, j) => j !== i))} className="absolute top-1.5 right-1.5 p-1 bg-black/60 rounded-full text-gray-300 hover:text-red-400 transition-colors"><IconX className="w-3 h-3" /></button>
+                                </div>
+                                <div className="grid grid-cols-3 gap-0.5 bg-gray-900/50 p-1">
+                                  {REFERENCE_ROLES.map(role => (
+                                    <button key={role.value} onClick={() => setReferenceRole(i, role.value)} className={`py-1 text-[8px] font-black uppercase rounded-lg transition-all ${r.role === role.value ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{role.label}</button>
+                                  ))}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="text-[10px] text-gray-600 font-medium px-1">Add images from your device, the editor or the gallery to guide the style, subject or layout.</p>
+                        )}
+                      </div>
+                    )}
+
                     <div className="space-y-4">
                       <label className="text-[10px] font-black uppercase tracking-widest text-gray-500 px-1">Quick Suggestions</label>
                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
@@ -1076,11 +3298,12 @@ const App: React.FC = () => {
                     <div className="space-y-4">
                       <label className="text-[10px] font-black uppercase tracking-widest text-gray-500 px-1">Engine</label>
                       <div className="flex bg-gray-950 p-1.5 rounded-2xl border border-white/5">
-                        <button onClick={() => setGenModel('gemini-2.5-flash-image')} className={`flex-1 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all ${genModel === 'gemini-2.5-flash-image' ? 'bg-indigo-600 text-white shadow-xl' : 'text-gray-500 hover:bg-white/5'}`}>Nano</button>
-                        <button onClick={() => setGenModel('gemini-3-pro-image-preview')} className={`flex-1 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all ${genModel === 'gemini-3-pro-image-preview' ? 'bg-indigo-600 text-white shadow-xl' : 'text-gray-500 hover:bg-white/5'}`}>Pro</button>
+                        {getProviders().map(p => (
+                          <button key={p.id} onClick={() => handleSelectProvider(p.id)} className={`flex-1 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all ${genProvider.id === p.id ? 'bg-indigo-600 text-white shadow-xl' : 'text-gray-500 hover:bg-white/5'}`}>{p.label}</button>
+                        ))}
                       </div>
                       <p className="text-[9px] text-gray-500 font-medium text-center px-4 leading-relaxed">
-                        {genModel === 'gemini-2.5-flash-image' ? "Lightweight & fast. Great for quick drafts." : "Maximum quality & detail. Requires API Key selection."}
+                        {genProvider.description}
                       </p>
                     </div>
 
@@ -1089,7 +3312,7 @@ const App: React.FC = () => {
                         <label className="text-[10px] font-black uppercase tracking-widest text-gray-500 px-1">Aspect Ratio</label>
                         <div className="relative">
                           <select value={aspectRatio} onChange={e => setAspectRatio(e.target.value as any)} className="block w-full bg-gray-950 border border-white/5 rounded-2xl p-3 text-xs font-bold text-white outline-none cursor-pointer focus:border-indigo-500/50 transition-colors appearance-none">
-                            {Object.values(AspectRatio).map(r => <option key={r} value={r}>{r}</option>)}
+                            {genProvider.capabilities.aspectRatios.map(r => <option key={r} value={r}>{r}</option>)}
                           </select>
                           <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-600">
                             <IconChevronDown className="w-4 h-4" />
@@ -1099,29 +3322,84 @@ const App: React.FC = () => {
                       <div className="space-y-3">
                         <label className="text-[10px] font-black uppercase tracking-widest text-gray-500 px-1">Resolution</label>
                         <div className="flex bg-gray-950 p-1 rounded-2xl border border-white/5">
-                          {Object.values(ImageResolution).map(r => (
+                          {genProvider.capabilities.resolutions.map(r => (
                             <button key={r} onClick={() => setImageSize(r)} className={`flex-1 py-2 text-[9px] md:text-[10px] font-black rounded-lg transition-all ${imageSize === r ? 'bg-gray-800 text-white' : 'text-gray-600 hover:text-gray-400'}`}>{r}</button>
                           ))}
                         </div>
                       </div>
                     </div>
 
-                    <button onClick={handleGenerate} disabled={isGenerating || !genPrompt} className="w-full py-5 md:py-6 bg-gradient-to-r from-indigo-600 to-purple-600 rounded-[25px] md:rounded-[30px] font-black uppercase tracking-[0.2em] text-[11px] md:text-[12px] text-white shadow-2xl shadow-indigo-500/20 hover:scale-[1.02] active:scale-95 transition-all disabled:opacity-50 flex items-center justify-center gap-3">
-                      {isGenerating ? <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" /> : <><IconWand className="w-5 h-5" /> Generate Magic</>}
+                    <div className="space-y-4">
+                      <label className="text-[10px] font-black uppercase tracking-widest text-gray-500 px-1">Batch</label>
+                      <div className="space-y-1 px-1">
+                        <div className="flex justify-between"><span className="text-[9px] font-black uppercase text-gray-600">Variations</span><span className="text-[10px] font-bold text-indigo-400">{variations}</span></div>
+                        <input type="range" min="1" max="8" value={variations} onChange={e => setVariations(parseInt(e.target.value))} className="w-full h-1 bg-gray-800 rounded appearance-none cursor-pointer accent-indigo-500" />
+                      </div>
+                      <div className="space-y-2 px-1">
+                        <span className="text-[9px] font-black uppercase text-gray-600">Ratio Matrix</span>
+                        <div className="flex flex-wrap gap-1.5">
+                          {genProvider.capabilities.aspectRatios.map(r => {
+                            const selected = r === aspectRatio || matrixRatios.includes(r);
+                            return <button key={r} onClick={() => r !== aspectRatio && toggleMatrixRatio(r)} className={`px-2.5 py-1.5 text-[9px] font-black rounded-lg transition-all ${selected ? 'bg-gray-800 text-white' : 'text-gray-600 hover:text-gray-400 bg-gray-950'}`}>{r}</button>;
+                          })}
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-2 gap-4 px-1">
+                        {genProvider.capabilities.seed && (
+                          <div className="space-y-2">
+                            <span className="text-[9px] font-black uppercase text-gray-600">Seed</span>
+                            <input type="number" value={seedInput} onChange={e => setSeedInput(e.target.value)} placeholder="Random" className="block w-full bg-gray-950 border border-white/5 rounded-xl p-2 text-xs font-bold text-white outline-none focus:border-indigo-500/50" />
+                          </div>
+                        )}
+                        <div className="space-y-2">
+                          <span className="text-[9px] font-black uppercase text-gray-600">Parallel</span>
+                          <div className="flex bg-gray-950 p-1 rounded-xl border border-white/5">
+                            {CONCURRENCY_OPTIONS.map(n => <button key={n} onClick={() => setConcurrency(n)} className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${concurrency === n ? 'bg-gray-800 text-white' : 'text-gray-600 hover:text-gray-400'}`}>{n}</button>)}
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+
+                    <button onClick={handleGenerate} disabled={batchJobCount === 0} className="w-full py-5 md:py-6 bg-gradient-to-r from-indigo-600 to-purple-600 rounded-[25px] md:rounded-[30px] font-black uppercase tracking-[0.2em] text-[11px] md:text-[12px] text-white shadow-2xl shadow-indigo-500/20 hover:scale-[1.02] active:scale-95 transition-all disabled:opacity-50 flex items-center justify-center gap-3">
+                      {isGenerating ? <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" /> : <IconWand className="w-5 h-5" />} {batchJobCount > 1 ? `Queue ${batchJobCount} Images` : 'Generate Magic'}
                     </button>
                   </div>
                 </div>
               </div>
 
+              {jobs.length > 0 && (
+                <div className="space-y-4 animate-fade-in pt-8">
+                  <div className="flex items-center gap-4"><div className="h-px flex-1 bg-white/5"></div><span className="text-[10px] font-black uppercase tracking-widest text-gray-600">Queue · {jobs.filter(j => j.status === 'done').length}/{jobs.length}</span><div className="h-px flex-1 bg-white/5"></div></div>
+                  <div className="flex justify-end gap-4 px-2">
+                    <button onClick={handleCancelAllJobs} className="text-[10px] font-black uppercase text-gray-500 hover:text-red-400 transition-colors">Cancel All</button>
+                    <button onClick={handleClearFinishedJobs} className="text-[10px] font-black uppercase text-indigo-400 hover:text-indigo-300 transition-colors">Clear Finished</button>
+                  </div>
+                  <div className="bg-gray-900/50 backdrop-blur border border-white/5 rounded-[30px] divide-y divide-white/5 max-h-96 overflow-y-auto custom-scrollbar">
+                    {jobs.map(job => (
+                      <div key={job.id} className="flex items-center gap-4 px-5 py-3">
+                        <div className={`w-2 h-2 rounded-full shrink-0 ${job.status === 'running' ? 'bg-indigo-500 animate-pulse' : job.status === 'done' ? 'bg-green-500' : job.status === 'failed' ? 'bg-red-500' : 'bg-gray-600'}`}></div>
+                        {job.results[0] ? <img src={job.results[0]} className="w-10 h-10 rounded-lg object-cover shrink-0" alt="" /> : <div className="w-10 h-10 rounded-lg bg-gray-950 shrink-0"></div>}
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs text-gray-300 font-medium truncate">{job.prompt}</p>
+                          <p className="text-[9px] font-bold uppercase tracking-wider text-gray-600 truncate">{job.aspectRatio} · {job.imageSize}{job.seed !== undefined ? ` · seed ${job.seed}` : ''}{job.references ? ` · ${job.references.length} ref` : ''} · <span className={job.status === 'failed' ? 'text-red-400' : ''}>{job.status === 'failed' ? job.error : job.status}</span></p>
+                        </div>
+                        {(job.status === 'queued' || job.status === 'running') && <button onClick={() => handleCancelJob(job.id)} className="p-2 text-gray-500 hover:text-red-400 transition-colors"><IconX className="w-4 h-4" /></button>}
+                        {(job.status === 'failed' || job.status === 'cancelled') && <button onClick={() => handleRetryJob(job.id)} className="p-2 text-gray-500 hover:text-indigo-400 transition-colors"><IconRestore className="w-4 h-4" /></button>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {generatedImages.length > 0 && (
                 <div className="space-y-8 animate-fade-in pt-8">
                   <div className="flex items-center gap-4"><div className="h-px flex-1 bg-white/5"></div><span className="text-[10px] font-black uppercase tracking-widest text-gray-600">Generated Results</span><div className="h-px flex-1 bg-white/5"></div></div>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-                    {generatedImages.map((src, i) => (
-                      <div key={i} className="group relative rounded-[30px] md:rounded-[40px] overflow-hidden border border-white/5 shadow-[0_20px_50px_rgba(0,0,0,0.4)] bg-gray-900 transition-all hover:scale-[1.02]">
+                    {generatedImages.map(({ url: src, id }) => (
+                      <div key={id} className="group relative rounded-[30px] md:rounded-[40px] overflow-hidden border border-white/5 shadow-[0_20px_50px_rgba(0,0,0,0.4)] bg-gray-900 transition-all hover:scale-[1.02]">
                         <img src={src} className="w-full h-auto object-cover" alt="AI Generated Output" />
                         <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 flex items-center justify-center gap-4 transition-all duration-300">
-                          <button onClick={() => downloadImage(src, `magic-${Date.now()}.png`)} className="px-6 md:px-8 py-3 md:py-4 bg-white text-black rounded-full font-black uppercase text-[9px] md:text-[10px] tracking-widest flex items-center gap-2 hover:scale-110 active:scale-95 transition-all">
+                          <button onClick={() => openImageExport(id)} className="px-6 md:px-8 py-3 md:py-4 bg-white text-black rounded-full font-black uppercase text-[9px] md:text-[10px] tracking-widest flex items-center gap-2 hover:scale-110 active:scale-95 transition-all">
                             <IconDownload className="w-4 h-4" /> Save Asset
                           </button>
                         </div>
@@ -1155,14 +3433,36 @@ const App: React.FC = () => {
                     <span className="font-black uppercase text-[10px] md:text-xs tracking-widest text-white">Camera</span>
                   </button>
                 </div>
-                {hasSavedSession && <button onClick={loadSession} className="py-3 px-8 md:py-4 md:px-10 bg-white/5 hover:bg-white/10 rounded-full border border-white/10 text-gray-300 font-bold transition-all text-xs md:text-base uppercase tracking-widest">Restore Last Session</button>}
+                <div className="flex flex-wrap items-center justify-center gap-3">
+                  {hasSavedSession && <button onClick={loadSession} className="py-3 px-8 md:py-4 md:px-10 bg-white/5 hover:bg-white/10 rounded-full border border-white/10 text-gray-300 font-bold transition-all text-xs md:text-base uppercase tracking-widest">Restore Last Session</button>}
+                  <label className="py-3 px-8 md:py-4 md:px-10 bg-white/5 hover:bg-white/10 rounded-full border border-white/10 text-gray-300 font-bold transition-all text-xs md:text-base uppercase tracking-widest cursor-pointer">Open Project<input type="file" className="hidden" accept={`${PROJECT_EXTENSION},application/json`} onChange={handleOpenProjectFile} /></label>
+                </div>
+                {savedProjects.length > 0 && (
+                  <div className="w-full max-w-[340px] md:max-w-2xl px-4 space-y-3">
+                    <label className="text-[10px] font-black uppercase tracking-widest text-gray-500 px-1">Recent Projects</label>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                      {savedProjects.map(p => (
+                        <div key={p.id} onClick={() => openProject(p.project, p.id)} className="group relative rounded-2xl overflow-hidden border border-white/5 bg-gray-900/50 cursor-pointer hover:border-indigo-500/30 transition-all">
+                          <img src={p.thumbnail} className="w-full h-24 object-cover" alt={p.name} />
+                          <div className="p-2"><p className="text-[10px] font-bold text-gray-300 truncate">{p.name}</p><p className="text-[9px] text-gray-600 font-bold">{new Date(p.updatedAt).toLocaleDateString()}</p></div>
+                          <button onClick={e => { e.stopPropagation(); if (confirm('Delete project?')) deleteProject(p.id).then(loadProjects); }} className="absolute top-2 right-2 p-1.5 bg-black/60 rounded-lg text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"><IconTrash className="w-3.5 h-3.5" /></button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             ) : (
               <>
-                <div ref={containerRef} onWheel={handleWheel} className="flex-1 bg-[#0c0c0e] relative overflow-hidden flex items-center justify-center touch-none select-none w-full" style={{ cursor: isCropping ? 'crosshair' : (brushType === 'pan' ? 'grab' : 'crosshair') }}>
+                <div ref={containerRef} onWheel={handleWheel} className="flex-1 bg-[#0c0c0e] relative overflow-hidden flex items-center justify-center touch-none select-none w-full" style={{ cursor: isCropping ? 'crosshair' : (brushType === 'pan' ? 'grab' : brushType === 'text' ? 'text' : 'crosshair') }}>
                   <div style={{ transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`, transformOrigin: 'center center', transition: isPanning ? 'none' : 'transform 0.1s ease-out' }}>
                     <div className="relative" style={{ width: canvasSize.width, height: canvasSize.height }}>
-                      <canvas ref={canvasRef} onMouseDown={handlePointerDown} onMouseMove={handlePointerMove} onMouseUp={handlePointerUp} onMouseLeave={handlePointerUp} onTouchStart={handlePointerDown} onTouchMove={handlePointerMove} onTouchEnd={handlePointerUp} className="shadow-2xl border border-gray-800 bg-black absolute inset-0" />
+                      <canvas ref={canvasRef} onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerCancel={handlePointerUp} onLostPointerCapture={handleLostPointerCapture} style={documentBackground ? undefined : CHECKERBOARD_STYLE} className="shadow-2xl border border-gray-800 bg-black absolute inset-0" />
+
+                      {/* Inpaint mask overlay - kept mounted so the painted mask survives toggling the mode */}
+                      <canvas ref={inpaintMaskRef} width={canvasSize.width} height={canvasSize.height} className={`absolute inset-0 pointer-events-none opacity-50 ${isInpainting ? '' : 'hidden'}`} />
+                      <canvas ref={selectionOverlayRef} width={canvasSize.width} height={canvasSize.height} className="absolute inset-0 pointer-events-none" />
+                      <canvas ref={transformOverlayRef} width={canvasSize.width} height={canvasSize.height} className={`absolute inset-0 pointer-events-none ${transformTarget ? '' : 'hidden'}`} />
 
                       {/* Clone Source Marker */}
                       {brushType === 'clone' && cloneSource && (
@@ -1173,6 +3473,17 @@ const App: React.FC = () => {
                         </div>
                       )}
 
+                      {brushType === 'shape' && activeLayer?.shape && !isCropping && (() => {
+                        const shape = activeLayer.shape;
+                        const b = shapeBounds(shape);
+                        const grab = (handle: CropHandleType) => { shapeDragRef.current = { id: activeLayer.id, handle, start: { x: 0, y: 0 }, origin: shape, previousLayerId: activeLayer.id }; };
+                        return (
+                          <div className="absolute border border-indigo-400 border-dashed pointer-events-none z-40" style={{ left: b.x, top: b.y, width: b.width, height: b.height, transform: shape.matrix && `matrix(${shape.matrix.join(',')})`, transformOrigin: `${-b.x}px ${-b.y}px` }}>
+                            {(['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'] as CropHandleType[]).map(type => <React.Fragment key={type}><CropHandle type={type} onGrab={grab} /></React.Fragment>)}
+                          </div>
+                        );
+                      })()}
+
                       {isCropping && cropRect && (
                         <div className="absolute inset-0 z-50 overflow-hidden pointer-events-none">
                           {/* Dimmer segments */}
@@ -1208,9 +3519,10 @@ const App: React.FC = () => {
                       <div className="bg-[#0f0f11]/95 backdrop-blur-2xl border border-white/10 rounded-[28px] md:rounded-[32px] shadow-2xl flex flex-col overflow-hidden max-h-[60vh] md:max-h-[70vh]">
                         <div className="p-4 md:p-5 border-b border-white/10 flex justify-between items-center bg-white/5"><h3 className="text-[9px] md:text-[10px] font-black uppercase tracking-widest text-gray-400">Layers</h3><button onClick={() => setShowLayerPanel(false)} className="text-gray-500 hover:text-white p-1"><IconX className="w-4 h-4" /></button></div>
                         <div className="overflow-y-auto flex-col-reverse flex p-3 md:p-4 gap-2 md:gap-3">
-                          {layers.map((l, i) => (
+                          {flattenLayerTree(layers, new Set(collapsedGroups)).map(({ layer: l, depth }) => { const i = layers.indexOf(l); return (
                             <div
                               key={l.id}
+                              style={{ marginLeft: depth * 14 }}
                               draggable
                               onDragStart={() => setDraggedLayerIndex(i)}
                               onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); }}
@@ -1220,10 +3532,26 @@ const App: React.FC = () => {
                               className={`relative p-2 md:p-3 rounded-2xl flex items-center gap-3 md:gap-4 cursor-pointer border transition-all ${activeLayerId === l.id ? 'bg-indigo-600/10 border-indigo-500/40 shadow-xl' : 'bg-gray-900/40 border-transparent hover:bg-white/5'} ${draggedLayerIndex === i ? 'opacity-40 scale-95 border-indigo-500/50' : ''}`}
                             >
                               <div className="text-gray-600 hover:text-gray-400 cursor-grab active:cursor-grabbing p-1"><IconMove className="w-3.5 h-3.5 md:w-4 md:h-4" /></div>
+                              {l.kind === 'group' && <button onClick={e => { e.stopPropagation(); toggleGroupCollapsed(l.id); }} className="text-[8px] font-black text-gray-500 hover:text-white w-3">{collapsedGroups.includes(l.id) ? '▸' : '▾'}</button>}
                               <button onClick={e => { e.stopPropagation(); handleToggleVisibility(l.id); }} className={`p-1 transition-colors ${l.visible ? 'text-indigo-400' : 'text-gray-700'}`}>{l.visible ? <IconEye className="w-4 h-4" /> : <IconEyeOff className="w-4 h-4" />}</button>
-                              <LayerThumbnail layer={l} />
+                              <div onClick={() => { setActiveLayerId(l.id); setIsEditingMask(false); }} className={`rounded ${activeLayerId === l.id && !(isEditingMask && l.mask) ? 'ring-1 ring-indigo-400' : ''}`}>
+                                {l.kind === 'group' ? <div className="w-8 h-8 rounded border border-white/10 bg-gray-800 flex items-center justify-center flex-shrink-0"><IconFolder className="w-4 h-4 text-indigo-400" /></div> : l.kind === 'adjustment' ? <div className="w-8 h-8 rounded border border-white/10 bg-gray-800 flex items-center justify-center flex-shrink-0"><IconSliders className="w-4 h-4 text-indigo-400" /></div> : isVectorLayer(l) ? <div className="w-8 h-8 rounded border border-white/10 bg-gray-800 flex items-center justify-center flex-shrink-0">{l.kind === 'text' ? <IconType className="w-4 h-4 text-indigo-400" /> : <IconShapes className="w-4 h-4 text-indigo-400" />}</div> : <LayerThumbnail layer={l} />}
+                              </div>
+                              {l.mask && <MaskThumbnail mask={l.mask} enabled={!!l.maskEnabled} active={activeLayerId === l.id && isEditingMask} onClick={(e) => { e.stopPropagation(); setActiveLayerId(l.id); setIsEditingMask(true); }} />}
                               <div className="flex-1 min-w-0">
-                                <p className="text-[11px] md:text-xs font-black truncate text-gray-200">{l.name}</p>
+                                {renamingLayerId === l.id ? (
+                                  <input
+                                    autoFocus
+                                    defaultValue={l.name}
+                                    onClick={e => e.stopPropagation()}
+                                    onFocus={e => e.target.select()}
+                                    onBlur={e => handleRenameLayer(l.id, e.target.value)}
+                                    onKeyDown={e => { e.stopPropagation(); if (e.key === 'Enter') e.currentTarget.blur(); if (e.key === 'Escape') setRenamingLayerId(null); }}
+                                    className="w-full bg-gray-900 border border-indigo-500/40 rounded px-1 text-[11px] md:text-xs font-black text-gray-200 outline-none"
+                                  />
+                                ) : (
+                                  <p onDoubleClick={e => { e.stopPropagation(); setRenamingLayerId(l.id); }} className="text-[11px] md:text-xs font-black truncate text-gray-200 flex items-center gap-1">{(l.lockPixels || l.lockAlpha) && <IconLock className="w-2.5 h-2.5 text-gray-500 flex-shrink-0" />}<span className="truncate">{l.name}</span></p>
+                                )}
                                 <div className="relative">
                                   <button
                                     onClick={(e) => { e.stopPropagation(); setBlendModeMenuId(blendModeMenuId === l.id ? null : l.id); }}
@@ -1251,11 +3579,182 @@ const App: React.FC = () => {
                               </div>
                               {activeLayerId === l.id && layers.length > 1 && <button onClick={e => { e.stopPropagation(); handleDeleteLayer(l.id); }} className="text-gray-600 hover:text-red-400 p-1"><IconTrash className="w-3.5 h-3.5" /></button>}
                             </div>
-                          ))}
+                          ); })}
                         </div>
-                        <div className="p-3 md:p-4 border-t border-white/10 grid grid-cols-2 gap-2 md:gap-3 bg-white/5">
+                        {activeLayer && (
+                          <div className="px-3 md:px-4 py-2 border-t border-white/10 flex flex-wrap gap-1">
+                            {[
+                              { l: 'Duplicate', fn: handleDuplicateLayer, off: false },
+                              { l: 'Group', fn: handleGroupLayer, off: false },
+                              { l: 'Ungroup', fn: handleUngroup, off: activeLayer.kind !== 'group' },
+                              { l: 'Merge Down', fn: handleMergeDown, off: !getSiblingBelow(layers, activeLayer) },
+                              { l: 'Merge Visible', fn: handleMergeVisible, off: layers.filter(l => isEffectivelyVisible(layers, l)).length < 2 },
+                              { l: 'Flatten', fn: handleFlattenImage, off: layers.length < 2 },
+                            ].map(a => (
+                              <button key={a.l} onClick={a.fn} disabled={a.off} className="px-2 py-1.5 bg-white/5 rounded-lg text-[8px] font-black uppercase tracking-widest text-gray-400 hover:text-white disabled:opacity-30 transition-all">{a.l}</button>
+                            ))}
+                          </div>
+                        )}
+                        {activeLayer && (
+                          <div className="px-3 md:px-4 py-3 border-t border-white/10 space-y-2">
+                            <div className="space-y-1">
+                              <div className="flex justify-between px-0.5"><span className="text-[8px] font-black uppercase text-gray-500">Opacity</span><span className="text-[9px] font-bold text-indigo-400">{Math.round((previewOpacity ?? activeLayer.opacity) * 100)}%</span></div>
+                              <input type="range" min={0} max={100} value={Math.round((previewOpacity ?? activeLayer.opacity) * 100)} onChange={e => setPreviewOpacity(parseInt(e.target.value) / 100)} onPointerUp={handleCommitOpacity} onKeyUp={handleCommitOpacity} onBlur={handleCommitOpacity} className="w-full h-1 bg-gray-800 rounded accent-indigo-500" />
+                            </div>
+                            {isRasterLayer(activeLayer) && (
+                              <div className="flex items-center gap-1">
+                                <span className="flex items-center gap-1 text-[8px] font-black uppercase text-gray-500 mr-1"><IconLock className="w-3 h-3" /> Lock</span>
+                                <button onClick={() => handleToggleLock(activeLayer.id, 'lockPixels')} className={`px-2 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all ${activeLayer.lockPixels ? 'bg-indigo-600 text-white' : 'bg-white/5 text-gray-400 hover:text-white'}`}>Pixels</button>
+                                <button onClick={() => handleToggleLock(activeLayer.id, 'lockAlpha')} className={`px-2 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all ${activeLayer.lockAlpha ? 'bg-indigo-600 text-white' : 'bg-white/5 text-gray-400 hover:text-white'}`}>Alpha</button>
+                              </div>
+                            )}
+                          </div>
+                        )}
+                        {activeLayer?.kind === 'adjustment' && activeLayer.adjustment && (() => {
+                          const adjustment = activeLayer.adjustment;
+                          return (
+                            <div className="px-3 md:px-4 py-3 border-t border-white/10 space-y-3">
+                              <div className="flex justify-between items-center">
+                                <span className="text-[8px] font-black uppercase text-gray-500 tracking-wider">{ADJUSTMENT_LABELS[adjustment.type]}</span>
+                                <button onClick={() => { const next = layers.map(l => l.id === activeLayer.id ? { ...l, adjustment: createDefaultAdjustment(adjustment.type) } : l); setLayers(next); saveHistory(next); }} className="text-[8px] font-black uppercase text-indigo-400 hover:text-indigo-300 transition-colors">Reset</button>
+                              </div>
+                              {adjustment.type === 'curves' && (
+                                <svg viewBox="0 0 255 255" className="w-full h-20 bg-gray-900/60 rounded-lg border border-white/5" preserveAspectRatio="none">
+                                  <polyline fill="none" stroke="currentColor" strokeWidth="3" className="text-indigo-400" points={Array.from(curvesLut(adjustment.params)).map((y, x) => `${x},${255 - y}`).join(' ')} />
+                                </svg>
+                              )}
+                              {ADJUSTMENT_SLIDERS[adjustment.type].map(slider => {
+                                const value = getAdjustmentValue(adjustment, slider.key);
+                                return (
+                                  <div key={slider.key} className="space-y-1">
+                                    <div className="flex justify-between px-0.5"><span className="text-[8px] font-black uppercase text-gray-500">{slider.label}</span><span className="text-[9px] font-bold text-indigo-400">{value}</span></div>
+                                    <input type="range" min={slider.min} max={slider.max} step={slider.step ?? 1} value={value} onChange={e => handleUpdateAdjustment(activeLayer.id, setAdjustmentValue(adjustment, slider.key, parseFloat(e.target.value)))} onPointerUp={commitLayerEdit} onKeyUp={commitLayerEdit} className="w-full h-1 bg-gray-800 rounded accent-indigo-500" />
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          );
+                        })()}
+                        {activeLayer?.kind === 'shape' && activeLayer.shape && (() => {
+                          const shape = activeLayer.shape;
+                          const update = (patch: Partial<ShapeContent>) => handleUpdateShape(activeLayer.id, patch);
+                          const set = (patch: Partial<ShapeContent>) => handleSetShape(activeLayer.id, patch);
+                          const linear = isLinearShape(shape.type);
+                          return (
+                            <div className="px-3 md:px-4 py-3 border-t border-white/10 space-y-3">
+                              <div className="flex justify-between items-center">
+                                <span className="text-[8px] font-black uppercase text-gray-500 tracking-wider">{SHAPE_LABELS[shape.type]}</span>
+                                <button onClick={handleRasterizeLayer} className="text-[8px] font-black uppercase text-indigo-400 hover:text-indigo-300 transition-colors">Rasterize</button>
+                              </div>
+                              <div className="flex gap-3">
+                                {!linear && (
+                                  <label className="flex items-center gap-1.5 text-[8px] font-black uppercase text-gray-500">
+                                    <input type="checkbox" checked={!!shape.fill} onChange={e => set({ fill: e.target.checked ? (shape.stroke ?? brushColor) : null })} className="accent-indigo-500" />Fill
+                                    {shape.fill && <input type="color" value={shape.fill} onChange={e => update({ fill: e.target.value })} onBlur={commitLayerEdit} className="w-6 h-6 rounded bg-transparent cursor-pointer" />}
+                                  </label>
+                                )}
+                                <label className="flex items-center gap-1.5 text-[8px] font-black uppercase text-gray-500">
+                                  <input type="checkbox" checked={!!shape.stroke} onChange={e => set({ stroke: e.target.checked ? (shape.fill ?? brushColor) : null })} className="accent-indigo-500" />Stroke
+                                  {shape.stroke && <input type="color" value={shape.stroke} onChange={e => update({ stroke: e.target.value })} onBlur={commitLayerEdit} className="w-6 h-6 rounded bg-transparent cursor-pointer" />}
+                                </label>
+                              </div>
+                              {linear && (
+                                <div className="grid grid-cols-2 gap-1">
+                                  <button onClick={() => set({ arrowStart: !shape.arrowStart })} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${shape.arrowStart ? 'bg-indigo-600 text-white' : 'bg-gray-900 text-gray-500'}`}>Start Arrow</button>
+                                  <button onClick={() => set({ arrowEnd: !shape.arrowEnd })} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${shape.arrowEnd ? 'bg-indigo-600 text-white' : 'bg-gray-900 text-gray-500'}`}>End Arrow</button>
+                                </div>
+                              )}
+                              {[
+                                { l: 'Stroke Width', v: shape.strokeWidth, min: 0, max: 100, show: !!shape.stroke, set: (v: number) => update({ strokeWidth: v }) },
+                                { l: 'Corner Radius', v: shape.cornerRadius, min: 0, max: 200, show: shape.type === 'rectangle', set: (v: number) => update({ cornerRadius: v }) },
+                                { l: 'Sides', v: shape.sides, min: 3, max: 12, show: shape.type === 'polygon', set: (v: number) => update({ sides: v }) },
+                              ].filter(item => item.show).map(item => (
+                                <div key={item.l} className="space-y-1">
+                                  <div className="flex justify-between px-0.5"><span className="text-[8px] font-black uppercase text-gray-500">{item.l}</span><span className="text-[9px] font-bold text-indigo-400">{Math.round(item.v)}</span></div>
+                                  <input type="range" min={item.min} max={item.max} value={item.v} onChange={e => item.set(parseInt(e.target.value))} onPointerUp={commitLayerEdit} onKeyUp={commitLayerEdit} className="w-full h-1 bg-gray-800 rounded accent-indigo-500" />
+                                </div>
+                              ))}
+                              <div className="grid grid-cols-4 gap-1 bg-gray-900/50 p-1 rounded-xl">
+                                {(['none', 'vertical', 'horizontal', 'radial'] as SymmetryMode[]).map(v => (
+                                  <button key={v} onClick={() => set({ symmetry: v, radialCount: v === 'radial' ? radialCount : shape.radialCount })} className={`py-1 text-[7px] font-black uppercase rounded-md transition-all ${shape.symmetry === v ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{v}</button>
+                                ))}
+                              </div>
+                            </div>
+                          );
+                        })()}
+                        {activeLayer?.kind === 'text' && activeLayer.text && (() => {
+                          const text = activeLayer.text;
+                          const update = (patch: Partial<TextContent>) => handleUpdateText(activeLayer.id, patch);
+                          return (
+                            <div className="px-3 md:px-4 py-3 border-t border-white/10 space-y-3">
+                              <div className="flex justify-between items-center">
+                                <span className="text-[8px] font-black uppercase text-gray-500 tracking-wider">Text</span>
+                                <button onClick={handleRasterizeLayer} className="text-[8px] font-black uppercase text-indigo-400 hover:text-indigo-300 transition-colors">Rasterize</button>
+                              </div>
+                              <textarea value={text.text} onChange={e => update({ text: e.target.value })} onBlur={commitLayerEdit} rows={2} className="w-full bg-gray-900 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-gray-200 resize-none focus:outline-none focus:border-indigo-500" />
+                              <div className="flex gap-2">
+                                <select value={text.fontFamily} onChange={e => { const next = layers.map(l => l.id === activeLayer.id ? { ...l, text: { ...text, fontFamily: e.target.value } } : l); setLayers(next); saveHistory(next); }} className="flex-1 min-w-0 bg-gray-900 border border-white/10 rounded-lg px-2 py-1 text-[10px] text-gray-300 focus:outline-none" style={{ fontFamily: text.fontFamily }}>
+                                  {TEXT_FONTS.map(f => <option key={f} value={f} style={{ fontFamily: f }}>{f}</option>)}
+                                </select>
+                                <select value={text.fontWeight} onChange={e => { const next = layers.map(l => l.id === activeLayer.id ? { ...l, text: { ...text, fontWeight: parseInt(e.target.value) } } : l); setLayers(next); saveHistory(next); }} className="w-16 bg-gray-900 border border-white/10 rounded-lg px-1 py-1 text-[10px] text-gray-300 focus:outline-none">
+                                  {TEXT_WEIGHTS.map(w => <option key={w} value={w}>{w}</option>)}
+                                </select>
+                              </div>
+                              <div className="flex gap-2 items-center">
+                                <input type="color" value={text.color} onChange={e => update({ color: e.target.value })} onBlur={commitLayerEdit} className="w-7 h-7 rounded-lg bg-transparent cursor-pointer shrink-0" />
+                                <div className="flex gap-1 bg-gray-900/50 p-0.5 rounded-lg flex-1">
+                                  {(['left', 'center', 'right'] as const).map(align => (
+                                    <button key={align} onClick={() => { const next = layers.map(l => l.id === activeLayer.id ? { ...l, text: { ...text, align } } : l); setLayers(next); saveHistory(next); }} className={`flex-1 py-1 text-[7px] font-black uppercase rounded-md transition-all ${text.align === align ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{align}</button>
+                                  ))}
+                                </div>
+                              </div>
+                              {[
+                                { l: 'Size', v: text.fontSize, min: 6, max: 400, set: (v: number) => update({ fontSize: v }) },
+                                { l: 'Rotation', v: text.rotation, min: -180, max: 180, set: (v: number) => update({ rotation: v }) },
+                                { l: 'Stroke', v: text.stroke?.width ?? 0, min: 0, max: 40, set: (v: number) => update({ stroke: { color: text.stroke?.color ?? '#000000', width: v } }) },
+                                { l: 'Shadow', v: text.shadow?.blur ?? 0, min: 0, max: 60, set: (v: number) => update({ shadow: v > 0 ? { color: text.shadow?.color ?? '#000000', blur: v, offsetX: text.shadow?.offsetX ?? 0, offsetY: text.shadow?.offsetY ?? Math.round(v / 4) } : undefined }) },
+                              ].map(item => (
+                                <div key={item.l} className="space-y-1">
+                                  <div className="flex justify-between px-0.5"><span className="text-[8px] font-black uppercase text-gray-500">{item.l}</span><span className="text-[9px] font-bold text-indigo-400">{Math.round(item.v)}</span></div>
+                                  <input type="range" min={item.min} max={item.max} value={item.v} onChange={e => item.set(parseInt(e.target.value))} onPointerUp={commitLayerEdit} onKeyUp={commitLayerEdit} className="w-full h-1 bg-gray-800 rounded accent-indigo-500" />
+                                </div>
+                              ))}
+                              {(text.stroke?.width || text.shadow) && (
+                                <div className="flex gap-3">
+                                  {!!text.stroke?.width && <label className="flex items-center gap-1.5 text-[8px] font-black uppercase text-gray-500">Stroke<input type="color" value={text.stroke.color} onChange={e => update({ stroke: { ...text.stroke!, color: e.target.value } })} onBlur={commitLayerEdit} className="w-6 h-6 rounded bg-transparent cursor-pointer" /></label>}
+                                  {text.shadow && <label className="flex items-center gap-1.5 text-[8px] font-black uppercase text-gray-500">Shadow<input type="color" value={text.shadow.color} onChange={e => update({ shadow: { ...text.shadow!, color: e.target.value } })} onBlur={commitLayerEdit} className="w-6 h-6 rounded bg-transparent cursor-pointer" /></label>}
+                                </div>
+                              )}
+                            </div>
+                          );
+                        })()}
+                        {activeLayer && (
+                          <div className="px-3 md:px-4 py-2.5 border-t border-white/10 flex items-center gap-2">
+                            <span className="text-[8px] font-black uppercase text-gray-500 tracking-wider mr-auto">{activeLayer.mask ? (isEditingMask ? 'Painting Mask' : 'Mask') : 'No Mask'}</span>
+                            {!activeLayer.mask ? (
+                              <button onClick={handleAddMask} className="px-3 py-1.5 bg-white/5 rounded-lg text-[8px] font-black uppercase tracking-widest text-gray-300 hover:bg-white/10 transition-all">Add Mask</button>
+                            ) : (
+                              <>
+                                <button onClick={() => setIsEditingMask(!isEditingMask)} className={`px-2 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all ${isEditingMask ? 'bg-indigo-600 text-white' : 'bg-white/5 text-gray-400 hover:text-white'}`}>Paint</button>
+                                <button onClick={handleInvertMask} className="px-2 py-1.5 bg-white/5 rounded-lg text-[8px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-all">Invert</button>
+                                <button onClick={handleToggleMask} className="px-2 py-1.5 bg-white/5 rounded-lg text-[8px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-all">{activeLayer.maskEnabled ? 'Disable' : 'Enable'}</button>
+                                <button onClick={handleApplyMask} className="px-2 py-1.5 bg-white/5 rounded-lg text-[8px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-all">Apply</button>
+                                <button onClick={handleDeleteMask} className="p-1.5 text-gray-600 hover:text-red-400 transition-colors"><IconTrash className="w-3.5 h-3.5" /></button>
+                              </>
+                            )}
+                          </div>
+                        )}
+                        <div className="relative p-3 md:p-4 border-t border-white/10 grid grid-cols-3 gap-2 md:gap-3 bg-white/5">
+                          {showAdjustmentMenu && (
+                            <div className="absolute bottom-full right-3 md:right-4 mb-2 w-44 bg-gray-900 border border-white/10 rounded-xl shadow-2xl overflow-hidden z-50">
+                              {(Object.keys(ADJUSTMENT_LABELS) as AdjustmentType[]).map(type => (
+                                <button key={type} onClick={() => handleAddAdjustmentLayer(type)} className="w-full text-left px-3 md:px-4 py-2 text-[9px] md:text-[10px] font-bold uppercase text-gray-400 hover:bg-white/5 hover:text-white">{ADJUSTMENT_LABELS[type]}</button>
+                              ))}
+                            </div>
+                          )}
                           <button onClick={handleAddLayer} className="w-full py-2.5 md:py-3 bg-white/5 rounded-xl md:rounded-2xl text-[9px] md:text-[10px] font-black uppercase tracking-widest hover:bg-white/10 transition-all">Layer</button>
                           <label className="w-full py-2.5 md:py-3 bg-indigo-600/10 rounded-xl md:rounded-2xl text-[9px] md:text-[10px] font-black uppercase tracking-widest text-indigo-400 flex items-center justify-center gap-2 cursor-pointer transition-colors hover:bg-indigo-600/20"><IconImage className="w-3.5 h-3.5 md:w-4 md:h-4" /> Image<input type="file" className="hidden" accept="image/*" onChange={handleAddImageLayer} /></label>
+                          <button onClick={() => setShowAdjustmentMenu(!showAdjustmentMenu)} className={`w-full py-2.5 md:py-3 rounded-xl md:rounded-2xl text-[9px] md:text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-2 transition-all ${showAdjustmentMenu ? 'bg-indigo-600 text-white' : 'bg-white/5 hover:bg-white/10'}`}><IconSliders className="w-3.5 h-3.5 md:w-4 md:h-4" /> Adjust</button>
                         </div>
                       </div>
                     )}
@@ -1267,6 +3766,8 @@ const App: React.FC = () => {
                       <div className="p-1 opacity-30 flex items-center justify-center" onPointerDown={handleDragStart}><IconMove className="w-4 h-4 text-gray-400" /></div>
                       <div className="flex gap-2">
                         <Tooltip text="Save" position="top"><button onClick={saveSession} className="text-gray-500 hover:text-emerald-400 p-1"><IconSave className="w-4 h-4" /></button></Tooltip>
+                        <Tooltip text="Export Image" position="top"><button onClick={openCanvasExport} className="text-gray-500 hover:text-white p-1"><IconImage className="w-4 h-4" /></button></Tooltip>
+                        <Tooltip text="Export Project" position="top"><button onClick={() => downloadProject(buildProject())} className="text-gray-500 hover:text-white p-1"><IconDownload className="w-4 h-4" /></button></Tooltip>
                         <Tooltip text={isToolbarMinimized ? "Expand" : "Minimize"} position="top"><button onClick={() => setIsToolbarMinimized(!isToolbarMinimized)} className="text-gray-500 hover:text-white p-1">{isToolbarMinimized ? <IconMaximize className="w-4 h-4" /> : <IconMinimize className="w-4 h-4" />}</button></Tooltip>
                       </div>
                     </div>
@@ -1284,6 +3785,23 @@ const App: React.FC = () => {
                             <Tooltip text="Resize" position="top"><button onClick={openResizeDialog} className="w-10 h-10 flex items-center justify-center bg-gray-900 rounded-xl text-gray-400 hover:text-white transition-colors"><IconScaling className="w-5 h-5" /></button></Tooltip>
                             <Tooltip text="Rot Left" position="top"><button onClick={() => handleRotateCanvas(-90)} className="w-10 h-10 flex items-center justify-center bg-gray-900 rounded-xl text-gray-400 hover:text-white transition-colors"><IconRotateCcw className="w-5 h-5" /></button></Tooltip>
                             <Tooltip text="Rot Right" position="top"><button onClick={() => handleRotateCanvas(90)} className="w-10 h-10 flex items-center justify-center bg-gray-900 rounded-xl text-gray-400 hover:text-white transition-colors"><IconRotateCw className="w-5 h-5" /></button></Tooltip>
+                            <Tooltip text="Transform Layer" position="top"><button onClick={() => transformTarget ? handleCancelTransform() : startTransform(activeLayer)} disabled={!activeLayer || activeLayer.kind === 'adjustment' || activeLayer.kind === 'group'} className={`w-10 h-10 flex items-center justify-center rounded-xl transition-all disabled:opacity-30 ${transformTarget ? 'bg-indigo-600 text-white' : 'bg-gray-900 text-gray-400 hover:text-white'}`}><IconMove className="w-5 h-5" /></button></Tooltip>
+                            <div className="col-span-4 space-y-1 pt-1">
+                              <span className="text-[8px] font-black uppercase text-gray-500 px-0.5">Background</span>
+                              <div className="flex items-center gap-2">
+                                <div className="flex-1 grid grid-cols-2 gap-1 bg-gray-900/50 p-1 rounded-xl">
+                                  <button onClick={() => setDocumentBackground(null)} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${documentBackground === null ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>Transparent</button>
+                                  <button onClick={() => setDocumentBackground(documentBackground ?? '#ffffff')} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${documentBackground !== null ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>Color</button>
+                                </div>
+                                <input type="color" value={documentBackground ?? '#ffffff'} onChange={e => setDocumentBackground(e.target.value)} className="w-8 h-8 rounded bg-transparent cursor-pointer" />
+                              </div>
+                            </div>
+                            <div className="col-span-4 space-y-1 pt-1">
+                              <div className="flex justify-between px-0.5"><span className="text-[8px] font-black uppercase text-gray-500">Undo Memory</span><span className="text-[9px] font-bold text-indigo-400">{history.length} steps · {Math.round(historyBytes(history) / (1024 * 1024))} MB</span></div>
+                              <div className="flex gap-1 bg-gray-900/50 p-1 rounded-xl">
+                                {HISTORY_BUDGET_OPTIONS_MB.map(mb => <button key={mb} onClick={() => handleSetHistoryBudget(mb)} className={`flex-1 py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${historyBudget === mb ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{mb >= 1024 ? `${mb / 1024}G` : mb}</button>)}
+                              </div>
+                            </div>
                           </div>
                         )}
                         <div className="grid grid-cols-4 gap-2">
@@ -1293,6 +3811,87 @@ const App: React.FC = () => {
                           <button onClick={() => setShowBrushSettings(!showBrushSettings)} className={`w-10 h-10 flex items-center justify-center rounded-xl transition-all ${showBrushSettings ? 'bg-indigo-600 text-white' : 'bg-gray-800/60 text-gray-400'}`}><IconSliders className="w-5 h-5" /></button>
                         </div>
 
+                        <div className="grid grid-cols-4 gap-2">
+                          <BrushBtn icon={IconMarquee} active={brushType === 'marquee'} onClick={() => setBrushType('marquee')} tooltip="Marquee" />
+                          <BrushBtn icon={IconLasso} active={brushType === 'lasso'} onClick={() => setBrushType('lasso')} tooltip="Lasso" />
+                          <BrushBtn icon={IconWand} active={brushType === 'wand'} onClick={() => setBrushType('wand')} tooltip="Magic Wand" />
+                          <BrushBtn icon={IconType} active={brushType === 'text'} onClick={() => setBrushType('text')} tooltip="Text" />
+                        </div>
+                        <div className="grid grid-cols-4 gap-2">
+                          <BrushBtn icon={IconShapes} active={brushType === 'shape'} onClick={() => setBrushType('shape')} tooltip="Shapes" />
+                          <BrushBtn icon={IconBucket} active={brushType === 'bucket'} onClick={() => setBrushType('bucket')} tooltip="Paint Bucket" />
+                          <BrushBtn icon={IconGradient} active={brushType === 'gradient'} onClick={() => setBrushType('gradient')} tooltip="Gradient" />
+                        </div>
+
+                        {brushType === 'bucket' && (
+                          <div className="space-y-2 p-2 bg-white/5 rounded-2xl border border-white/5 animate-fade-in">
+                            <div className="space-y-1 px-1">
+                              <div className="flex justify-between px-0.5"><span className="text-[8px] font-black uppercase text-gray-500">Tolerance</span><span className="text-[9px] font-bold text-indigo-400">{bucketTolerance}</span></div>
+                              <input type="range" min="0" max="100" value={bucketTolerance} onChange={e => setBucketTolerance(parseInt(e.target.value))} className="w-full h-1 bg-gray-800 rounded appearance-none cursor-pointer accent-indigo-500" />
+                            </div>
+                            <div className="grid grid-cols-2 gap-1">
+                              <button onClick={() => setBucketContiguous(!bucketContiguous)} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${bucketContiguous ? 'bg-indigo-600 text-white' : 'bg-gray-900 text-gray-500'}`}>Contiguous</button>
+                              <button onClick={() => setBucketSampleAll(!bucketSampleAll)} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${bucketSampleAll ? 'bg-indigo-600 text-white' : 'bg-gray-900 text-gray-500'}`}>All Layers</button>
+                            </div>
+                          </div>
+                        )}
+
+                        {brushType === 'gradient' && (
+                          <div className="space-y-2 p-2 bg-white/5 rounded-2xl border border-white/5 animate-fade-in">
+                            <div className="grid grid-cols-2 gap-1 bg-gray-900/50 p-1 rounded-xl">
+                              {(['linear', 'radial'] as GradientType[]).map(t => (
+                                <button key={t} onClick={() => setGradientType(t)} className={`py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${gradientType === t ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{t}</button>
+                              ))}
+                            </div>
+                            <div className="h-4 rounded-md border border-white/10" style={{ background: gradientCss(gradientStops) }} />
+                            {gradientStops.map((stop, i) => (
+                              <div key={i} className="flex items-center gap-2 px-1">
+                                <input type="color" value={stop.color} onChange={e => updateGradientStop(i, { color: e.target.value })} className="w-6 h-6 rounded bg-transparent cursor-pointer flex-shrink-0" />
+                                <input type="range" min="0" max="100" value={Math.round(stop.offset * 100)} onChange={e => updateGradientStop(i, { offset: parseInt(e.target.value) / 100 })} className="flex-1 h-1 bg-gray-800 rounded accent-indigo-500" />
+                                <span className="text-[9px] font-bold text-indigo-400 w-7 text-right">{Math.round(stop.offset * 100)}%</span>
+                                <button onClick={() => setGradientStops(stops => stops.filter((_, j) => j !== i))} disabled={gradientStops.length <= 2} className="text-gray-600 hover:text-red-400 disabled:opacity-30 transition-colors"><IconX className="w-3 h-3" /></button>
+                              </div>
+                            ))}
+                            <div className="grid grid-cols-2 gap-1">
+                              <button onClick={() => setGradientStops(stops => [...stops, { offset: 0.5, color: brushColor }])} className="py-1.5 bg-gray-900 rounded-lg text-[8px] font-black uppercase text-gray-400 hover:text-white transition-colors">Add Stop</button>
+                              <button onClick={() => setGradientStops(stops => stops.map(s => ({ ...s, offset: 1 - s.offset })))} className="py-1.5 bg-gray-900 rounded-lg text-[8px] font-black uppercase text-gray-400 hover:text-white transition-colors">Reverse</button>
+                            </div>
+                          </div>
+                        )}
+
+                        {brushType === 'shape' && (
+                          <div className="flex flex-wrap gap-1 bg-gray-900/50 p-1 rounded-xl animate-fade-in">
+                            {(Object.keys(SHAPE_LABELS) as ShapeType[]).map(type => (
+                              <button key={type} onClick={() => setShapeType(type)} className={`flex-1 px-1.5 py-1.5 text-[7px] font-black uppercase rounded-lg transition-all ${shapeType === type ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{SHAPE_LABELS[type]}</button>
+                            ))}
+                          </div>
+                        )}
+
+                        {(isSelectionTool || selection) && (
+                          <div className="space-y-2 p-2 bg-white/5 rounded-2xl border border-white/5 animate-fade-in">
+                            {brushType === 'wand' && (
+                              <div className="space-y-1 px-1">
+                                <div className="flex justify-between px-0.5"><span className="text-[8px] font-black uppercase text-gray-500">Tolerance</span><span className="text-[9px] font-bold text-indigo-400">{wandTolerance}</span></div>
+                                <input type="range" min="0" max="100" value={wandTolerance} onChange={e => setWandTolerance(parseInt(e.target.value))} className="w-full h-1 bg-gray-800 rounded appearance-none cursor-pointer accent-indigo-500" />
+                                <button onClick={() => setWandContiguous(!wandContiguous)} className={`w-full py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${wandContiguous ? 'bg-indigo-600 text-white' : 'bg-gray-900 text-gray-500'}`}>Contiguous</button>
+                              </div>
+                            )}
+                            {isSelectionTool && <p className="text-[8px] text-gray-500 px-1">Shift adds, Alt subtracts</p>}
+                            <div className="grid grid-cols-4 gap-1">
+                              {[
+                                { label: 'All', action: handleSelectAll, enabled: true },
+                                { label: 'None', action: handleDeselect, enabled: !!selection },
+                                { label: 'Invert', action: handleInvertSelection, enabled: !!selection },
+                                { label: 'Feather', action: handleFeatherSelection, enabled: !!selection },
+                                { label: 'Fill', action: handleFillSelection, enabled: true },
+                                { label: 'Clear', action: handleClearLayer, enabled: true },
+                                { label: 'Copy', action: handleCopySelection, enabled: true },
+                                { label: 'Paste', action: handlePasteAsLayer, enabled: true },
+                              ].map(b => <button key={b.label} onClick={b.action} disabled={!b.enabled} className="py-1.5 bg-gray-900 rounded-lg text-[8px] font-black uppercase text-gray-400 hover:text-white disabled:opacity-30 transition-colors">{b.label}</button>)}
+                            </div>
+                          </div>
+                        )}
+
                         {brushType === 'clone' && (
                           <button onClick={() => setIsSettingCloneSource(true)} className={`w-full py-2.5 rounded-xl font-black uppercase text-[9px] tracking-widest transition-all ${isSettingCloneSource ? 'bg-emerald-600 text-white animate-pulse' : 'bg-white/5 text-emerald-400 hover:bg-white/10'}`}>{isSettingCloneSource ? 'Click to set source' : 'Set Clone Source'}</button>
                         )}
@@ -1345,6 +3944,40 @@ const App: React.FC = () => {
                                 </div>
                               )}
                             </div>
+                            <div className="rounded-2xl border border-white/5 overflow-hidden">
+                              <button onClick={() => toggleSection('stylus')} className="w-full px-3 py-2 flex justify-between items-center bg-white/5 text-[8px] font-black uppercase text-gray-400 tracking-wider">Pen Pressure{collapsedSections.stylus ? <IconChevronRight className="w-3 h-3" /> : <IconChevronDown className="w-3 h-3" />}</button>
+                              {!collapsedSections.stylus && (
+                                <div className="p-3 bg-black/20 space-y-4">
+                                  {(['size', 'flow', 'opacity'] as const).map(prop => {
+                                    const curve = brushDynamics[prop];
+                                    const setCurve = (patch: Partial<DynamicsCurve>) => setBrushDynamics(d => ({ ...d, [prop]: { ...d[prop], ...patch } }));
+                                    return (
+                                      <div key={prop} className="space-y-2">
+                                        <div className="flex items-center justify-between gap-2">
+                                          <span className="text-[8px] font-black uppercase text-gray-500">{prop}</span>
+                                          <div className="flex gap-1 bg-gray-900/50 p-0.5 rounded-lg">
+                                            {(['none', 'pressure', 'tilt'] as const).map(input => (
+                                              <button key={input} onClick={() => setCurve({ input })} className={`px-1.5 py-1 text-[7px] font-black uppercase rounded-md transition-all ${curve.input === input ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{input}</button>
+                                            ))}
+                                          </div>
+                                        </div>
+                                        {curve.input !== 'none' && (
+                                          <div className="flex gap-2 items-center">
+                                            <svg viewBox="0 0 32 32" className="w-8 h-8 shrink-0 bg-gray-900 rounded-md"><path d={curvePath(curve, 32)} fill="none" stroke="#818cf8" strokeWidth="1.5" /></svg>
+                                            <div className="flex-1 space-y-1">
+                                              <div className="flex justify-between px-0.5"><span className="text-[8px] font-black uppercase text-gray-500">Min</span><span className="text-[9px] font-bold text-indigo-400">{curve.min}%</span></div>
+                                              <input type="range" min="0" max="100" value={curve.min} onChange={e => setCurve({ min: parseInt(e.target.value) })} className="w-full h-1 bg-gray-800 rounded accent-indigo-500" />
+                                              <div className="flex justify-between px-0.5"><span className="text-[8px] font-black uppercase text-gray-500">Curve</span><span className="text-[9px] font-bold text-indigo-400">{curve.gamma.toFixed(1)}</span></div>
+                                              <input type="range" min="0.2" max="4" step="0.1" value={curve.gamma} onChange={e => setCurve({ gamma: parseFloat(e.target.value) })} className="w-full h-1 bg-gray-800 rounded accent-indigo-500" />
+                                            </div>
+                                          </div>
+                                        )}
+                                      </div>
+                                    );
+                                  })}
+                                </div>
+                              )}
+                            </div>
                             <div className="rounded-2xl border border-white/5 overflow-hidden">
                               <button onClick={() => toggleSection('colors')} className="w-full px-3 py-2 flex justify-between items-center bg-white/5 text-[8px] font-black uppercase text-gray-400 tracking-wider">Palette{collapsedSections.colors ? <IconChevronRight className="w-3 h-3" /> : <IconChevronDown className="w-3 h-3" />}</button>
                               {!collapsedSections.colors && <div className="p-3 bg-black/20 grid grid-cols-5 gap-2">{['#FFFFFF', '#000000', '#FF0055', '#00E5FF', '#FFD700', '#32CD32', '#FF4500', '#9370DB', '#FF69B4', '#8B4513'].map(c => <button key={c} onClick={() => setBrushColor(c)} className={`w-7 h-7 md:w-8 md:h-8 rounded-xl border border-white/10 hover:scale-110 transition-all ${brushColor === c ? 'ring-2 ring-indigo-500 ring-offset-1 ring-offset-black scale-110' : ''}`} style={{ background: c }} />)}</div>}
@@ -1358,22 +3991,64 @@ const App: React.FC = () => {
                         </div>
 
                         <div className="flex gap-2 md:gap-3 shrink-0">
-                          <button onClick={handleUndo} disabled={historyStep <= 0} className="w-full py-3 bg-gray-900 rounded-xl md:rounded-2xl text-gray-500 disabled:opacity-10 hover:text-white transition-colors flex items-center justify-center"><IconUndo className="w-4 h-4" /></button>
+                          <button onClick={handleUndo} disabled={historyStep < 0} className="w-full py-3 bg-gray-900 rounded-xl md:rounded-2xl text-gray-500 disabled:opacity-10 hover:text-white transition-colors flex items-center justify-center"><IconUndo className="w-4 h-4" /></button>
                           <button onClick={handleRedo} disabled={historyStep >= history.length - 1} className="w-full py-3 bg-gray-900 rounded-xl md:rounded-2xl text-gray-500 disabled:opacity-10 hover:text-white transition-colors flex items-center justify-center"><IconRedo className="w-4 h-4" /></button>
                         </div>
                       </div>
                     )}
                   </div>
 
-                  {!isCropping ? (
+                  {cutout ? (
+                    <div className="absolute bottom-24 md:bottom-12 left-0 right-0 z-40 px-4 flex justify-center pointer-events-none">
+                      <div className="pointer-events-auto w-full max-w-2xl flex flex-wrap items-center gap-2 md:gap-3 bg-gray-950/90 backdrop-blur-xl border border-white/10 rounded-[25px] md:rounded-[30px] p-2 md:p-3 shadow-2xl">
+                        <button onClick={handleCancelCutout} className="w-10 h-10 flex items-center justify-center rounded-full text-gray-500 hover:text-red-400 transition-all"><IconX className="w-5 h-5" /></button>
+                        <div className="grid grid-cols-2 gap-1 bg-gray-900/50 p-1 rounded-xl">
+                          {([['ai', 'AI'], ['colorKey', 'Color Key']] as const).map(([m, label]) => (
+                            <button key={m} onClick={() => handleSetCutoutMethod(m)} className={`px-3 py-1.5 text-[8px] font-black uppercase rounded-lg transition-all ${cutoutSettings.method === m ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{label}</button>
+                          ))}
+                        </div>
+                        <div className="flex-1 grid grid-cols-2 md:grid-cols-4 gap-x-3 gap-y-1 min-w-[200px]">
+                          {[
+                            { k: 'tolerance' as const, l: 'Tolerance', max: 100, unit: '' },
+                            { k: 'refine' as const, l: 'Refine', max: 5, unit: '' },
+                            { k: 'feather' as const, l: 'Feather', max: 20, unit: 'px' },
+                            { k: 'decontaminate' as const, l: 'Decontam.', max: 100, unit: '%' },
+                          ].map(s => (
+                            <div key={s.k} className="space-y-1">
+                              <div className="flex justify-between px-0.5"><span className="text-[8px] font-black uppercase text-gray-500">{s.l}</span><span className="text-[9px] font-bold text-indigo-400">{cutoutSettings[s.k]}{s.unit}</span></div>
+                              <input type="range" min="0" max={s.max} value={cutoutSettings[s.k]} onChange={e => { const v = parseInt(e.target.value); setCutoutSettings(c => ({ ...c, [s.k]: v })); }} className="w-full h-1 bg-gray-800 rounded accent-indigo-500" />
+                            </div>
+                          ))}
+                        </div>
+                        <button onClick={handleApplyCutout} disabled={cutoutSettings.method === 'ai' && !cutout.response} className="flex items-center gap-2 h-10 px-6 bg-indigo-600 text-white rounded-full font-black uppercase text-[10px] tracking-widest hover:bg-indigo-500 disabled:opacity-40 transition-all shadow-lg active:scale-95"><IconCheck className="w-4 h-4" /> Apply</button>
+                      </div>
+                    </div>
+                  ) : transformTarget ? (
+                    <div className="absolute bottom-24 md:bottom-12 left-0 right-0 z-40 px-4 flex justify-center pointer-events-none">
+                      <div className="pointer-events-auto flex items-center gap-2 md:gap-3 bg-gray-950/90 backdrop-blur-xl border border-white/10 rounded-full p-2 pr-5 md:pr-6 shadow-2xl">
+                        <button onClick={handleCancelTransform} className="w-10 h-10 md:w-12 md:h-12 flex items-center justify-center rounded-full text-gray-500 hover:text-red-400 transition-all"><IconX className="w-5 h-5 md:w-6 md:h-6" /></button>
+                        <div className="h-10 md:h-12 w-px bg-white/10"></div>
+                        <button onClick={() => setLayerTransform(t => ({ ...t, scaleX: -t.scaleX }))} className="px-3 py-2 rounded-full bg-white/5 text-[8px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-all">Flip H</button>
+                        <button onClick={() => setLayerTransform(t => ({ ...t, scaleY: -t.scaleY }))} className="px-3 py-2 rounded-full bg-white/5 text-[8px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-all">Flip V</button>
+                        <div className="hidden md:flex flex-col w-28 gap-1">
+                          <div className="flex justify-between px-0.5"><span className="text-[8px] font-black uppercase text-gray-500">Angle</span><span className="text-[9px] font-bold text-indigo-400">{Math.round(layerTransform.rotation)}°</span></div>
+                          <input type="range" min="-180" max="180" value={Math.round(layerTransform.rotation)} onChange={e => setLayerTransform(t => ({ ...t, rotation: parseInt(e.target.value) }))} className="w-full h-1 bg-gray-800 rounded accent-indigo-500" />
+                        </div>
+                        <button onClick={() => setTransformSnap(!transformSnap)} className={`px-3 py-2 rounded-full text-[8px] font-black uppercase tracking-widest transition-all ${transformSnap ? 'bg-indigo-600/20 text-indigo-300' : 'bg-white/5 text-gray-500'}`}>Snap</button>
+                        <button onClick={handleApplyTransform} className="flex items-center gap-2 md:gap-3 h-10 md:h-12 px-6 md:px-8 bg-indigo-600 text-white rounded-full font-black uppercase text-[10px] md:text-xs tracking-widest hover:bg-indigo-500 transition-all shadow-lg active:scale-95"><IconCheck className="w-4 h-4 md:w-5 md:h-5" /> Apply</button>
+                      </div>
+                    </div>
+                  ) : !isCropping ? (
                     <div className="absolute bottom-24 md:bottom-12 left-0 right-0 z-40 px-4 md:px-6 flex justify-center pointer-events-none">
                       <div className="w-full max-w-2xl pointer-events-auto">
                         <div className="relative group">
                           <div className="absolute -inset-1 bg-indigo-500/10 rounded-[32px] blur-xl opacity-0 group-hover:opacity-100 transition-all duration-700"></div>
                           <div className="relative flex items-center gap-2 md:gap-4 bg-gray-950/90 backdrop-blur-2xl border border-white/10 rounded-[25px] md:rounded-[30px] p-2 md:p-2.5 pl-3 md:pl-4 shadow-[0_20px_50px_rgba(0,0,0,0.6)]">
-                            <button onClick={() => { setLayers([]); setHistory([]); setHistoryStep(-1); }} className="w-9 h-9 md:w-10 md:h-10 flex items-center justify-center rounded-xl text-gray-500 hover:text-red-400 transition-colors"><IconX className="w-4 h-4 md:w-5 md:h-5" /></button>
+                            <button onClick={() => { setLayers([]); resetHistory([], { width: 0, height: 0 }); setIsInpainting(false); }} className="w-9 h-9 md:w-10 md:h-10 flex items-center justify-center rounded-xl text-gray-500 hover:text-red-400 transition-colors"><IconX className="w-4 h-4 md:w-5 md:h-5" /></button>
                             <div className="h-6 w-px bg-white/10"></div>
-                            <input type="text" value={editPrompt} onChange={e => setEditPrompt(e.target.value)} placeholder="Prompt magic..." className="flex-1 bg-transparent border-none outline-none text-white font-bold text-xs md:text-base placeholder:text-gray-600" />
+                            <Tooltip text={isInpainting ? "Exit Inpaint" : "Inpaint Mask"} position="top"><button onClick={toggleInpainting} className={`w-9 h-9 md:w-10 md:h-10 flex items-center justify-center rounded-xl transition-colors ${isInpainting ? 'bg-rose-500/20 text-rose-400' : 'text-gray-500 hover:text-white'}`}><IconBrush className="w-4 h-4 md:w-5 md:h-5" /></button></Tooltip>
+                            {isInpainting && <Tooltip text="Clear Mask" position="top"><button onClick={clearInpaintMask} className="w-9 h-9 md:w-10 md:h-10 flex items-center justify-center rounded-xl text-gray-500 hover:text-red-400 transition-colors"><IconTrash className="w-4 h-4" /></button></Tooltip>}
+                            <input type="text" value={editPrompt} onChange={e => setEditPrompt(e.target.value)} placeholder={isInpainting ? "Describe the change for the masked area..." : "Prompt magic..."} className="flex-1 bg-transparent border-none outline-none text-white font-bold text-xs md:text-base placeholder:text-gray-600" />
                             <Tooltip text="Process" position="top">
                               <button onClick={handleMagicEdit} disabled={isEditing || !editPrompt} className={`h-10 md:h-11 px-6 md:px-8 rounded-[20px] md:rounded-[22px] font-black uppercase tracking-widest text-[9px] md:text-[10px] text-white shadow-xl transition-all flex items-center gap-3 ${isEditing || !editPrompt ? 'bg-gray-800 text-gray-600' : 'bg-indigo-600 hover:bg-indigo-500 active:scale-95'}`}>{isEditing ? <div className="w-3.5 h-3.5 md:w-4 md:h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" /> : <><span className="hidden sm:inline">Apply</span><IconWand className="w-4 h-4 md:w-4.5 md:h-4.5" /></>}</button>
                             </Tooltip>
@@ -1397,9 +4072,9 @@ const App: React.FC = () => {
                       <button onClick={() => setEditedImages([])} className="absolute top-4 right-4 p-2 bg-gray-900 rounded-xl text-white shadow-xl hover:rotate-90 transition-transform"><IconX className="w-5 h-5" /></button>
                       <h2 className="text-xl md:text-2xl font-black uppercase mb-6 md:mb-8 text-white tracking-widest">Magic Result</h2>
                       <div className="grid grid-cols-1 gap-6">
-                        {editedImages.map((src, i) => (
-                          <div key={i} className="relative rounded-[25px] md:rounded-[32px] overflow-hidden group bg-black shadow-2xl border border-white/5">
-                            <img src={src} className="w-full max-h-[50vh] object-contain" alt="AI Result" /><div className="absolute bottom-4 md:bottom-6 left-4 md:left-6 right-4 md:right-6 flex gap-3 md:gap-4 opacity-0 group-hover:opacity-100 transition-all translate-y-2 group-hover:translate-y-0"><button onClick={() => handleApplyResult(src)} className="flex-1 py-3 md:py-4 bg-indigo-600 text-white rounded-xl md:rounded-2xl font-black uppercase text-[9px] md:text-[10px] tracking-widest shadow-2xl flex items-center justify-center gap-2 md:gap-3 hover:bg-indigo-500 active:scale-95 transition-all"><IconCheck className="w-4 h-4 md:w-5 md:h-5" /> Layer</button><button onClick={() => downloadImage(src, 'magic.png')} className="py-3 md:py-4 px-5 md:px-6 bg-white/10 backdrop-blur-md text-white rounded-xl md:rounded-2xl border border-white/20 hover:bg-white/20 transition-all"><IconDownload className="w-4 h-4 md:w-5 md:h-5" /></button></div>
+                        {editedImages.map((result) => (
+                          <div key={result.id} className="relative rounded-[25px] md:rounded-[32px] overflow-hidden group bg-black shadow-2xl border border-white/5">
+                            <img src={result.url} className="w-full max-h-[50vh] object-contain" alt="AI Result" /><div className="absolute bottom-4 md:bottom-6 left-4 md:left-6 right-4 md:right-6 flex gap-3 md:gap-4 opacity-0 group-hover:opacity-100 transition-all translate-y-2 group-hover:translate-y-0"><button onClick={() => handleApplyResult(result)} className="flex-1 py-3 md:py-4 bg-indigo-600 text-white rounded-xl md:rounded-2xl font-black uppercase text-[9px] md:text-[10px] tracking-widest shadow-2xl flex items-center justify-center gap-2 md:gap-3 hover:bg-indigo-500 active:scale-95 transition-all"><IconCheck className="w-4 h-4 md:w-5 md:h-5" /> Layer</button>{!editMask && <Tooltip text="Paint in where it helps" position="top"><button onClick={() => handleApplyResult(result, true)} className="py-3 md:py-4 px-5 md:px-6 bg-white/10 backdrop-blur-md text-white rounded-xl md:rounded-2xl border border-white/20 hover:bg-white/20 transition-all font-black uppercase text-[9px] md:text-[10px] tracking-widest">Masked</button></Tooltip>}<button onClick={() => openImageExport(result.id)} className="py-3 md:py-4 px-5 md:px-6 bg-white/10 backdrop-blur-md text-white rounded-xl md:rounded-2xl border border-white/20 hover:bg-white/20 transition-all"><IconDownload className="w-4 h-4 md:w-5 md:h-5" /></button></div>
                           </div>
                         ))}
                       </div>
@@ -1414,10 +4089,87 @@ const App: React.FC = () => {
         {mode === AppMode.GALLERY && (
           <div className="flex-1 overflow-y-auto p-6 animate-fade-in pb-32">
             <div className="max-w-6xl mx-auto"><h2 className="text-3xl font-black tracking-tight mb-8 text-white">Magic Gallery</h2>
-              {galleryItems.length === 0 ? <div className="text-center py-32 text-gray-500"><div className="flex items-center justify-center mb-4 opacity-20"><IconHistory className="w-16 h-16" /></div><p className="font-medium">Your creations will appear here.</p></div> : <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">{galleryItems.map(item => (
-                <div key={item.id} className="group relative bg-gray-900/50 backdrop-blur border border-white/5 rounded-[30px] md:rounded-[32px] overflow-hidden shadow-xl transition-all hover:scale-[1.02]"><img src={item.src} className="w-full h-56 md:h-64 object-cover" alt="Gallery item" /><div className="p-5 md:p-6"><div className="flex justify-between items-start mb-3"><span className={`text-[8px] md:text-[9px] font-black uppercase tracking-widest px-2.5 py-1 rounded-full ${item.type === 'generated' ? 'bg-indigo-500/20 text-indigo-400' : 'bg-purple-500/20 text-purple-400'}`}>{item.type}</span><span className="text-[9px] md:text-[10px] text-gray-600 font-bold">{new Date(item.timestamp).toLocaleDateString()}</span></div><p className="text-sm text-gray-300 font-medium line-clamp-2 leading-relaxed">{item.prompt}</p></div><div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-4"><button onClick={() => downloadImage(item.src, 'gallery.png')} className="p-3.5 md:p-4 bg-white/10 backdrop-blur rounded-full text-white hover:scale-110 transition-all"><IconDownload className="w-5 h-5 md:w-6 md:h-6" /></button><button onClick={() => { if (confirm('Delete?')) deleteItem(item.id).then(loadGallery); }} className="p-3.5 md:p-4 bg-red-500/20 rounded-full text-red-400 hover:scale-110 transition-all"><IconTrash className="w-5 h-5 md:w-6 md:h-6" /></button></div></div>
+              <div className="mb-8 space-y-3">
+                <div className="flex gap-3">
+                  <div className="flex-1 flex items-center gap-3 bg-gray-900/50 border border-white/5 rounded-2xl px-4 focus-within:border-indigo-500/50 transition-colors">
+                    <IconSearch className="w-4 h-4 text-gray-500" />
+                    <input type="text" value={galleryFilter.search ?? ''} onChange={e => updateGalleryFilter({ search: e.target.value })} placeholder="Search prompts..." className="flex-1 bg-transparent py-3 text-sm text-white outline-none placeholder:text-gray-600" />
+                  </div>
+                  {gallerySelection ? (
+                    <>
+                      <button onClick={handleExportGallery} disabled={isArchiving || gallerySelection.length === 0} className="flex items-center gap-2 px-4 bg-indigo-600 rounded-2xl text-[8px] font-black uppercase tracking-widest text-white hover:bg-indigo-500 disabled:opacity-40 transition-all"><IconDownload className="w-4 h-4" /> Export {gallerySelection.length}</button>
+                      <button onClick={() => setGallerySelection(null)} className="px-4 bg-gray-900/50 border border-white/5 rounded-2xl text-[8px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-all">Cancel</button>
+                    </>
+                  ) : (
+                    <>
+                      <button onClick={() => setGallerySelection([])} className="px-4 bg-gray-900/50 border border-white/5 rounded-2xl text-[8px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-all">Select</button>
+                      <Tooltip text="Export All"><button onClick={handleExportGallery} disabled={isArchiving} className="p-3.5 bg-gray-900/50 border border-white/5 rounded-2xl text-gray-500 hover:text-white disabled:opacity-40 transition-all"><IconDownload className="w-4 h-4" /></button></Tooltip>
+                      <Tooltip text="Import Archive"><label className={`block p-3.5 bg-gray-900/50 border border-white/5 rounded-2xl text-gray-500 hover:text-white transition-all cursor-pointer ${isArchiving ? 'opacity-40 pointer-events-none' : ''}`}><IconUpload className="w-4 h-4" /><input type="file" className="hidden" accept={`${ARCHIVE_EXTENSION},application/zip`} onChange={handleImportGallery} /></label></Tooltip>
+                    </>
+                  )}
+                  <Tooltip text="Favorites"><button onClick={() => updateGalleryFilter({ favorites: !galleryFilter.favorites })} className={`p-3.5 rounded-2xl border transition-all ${galleryFilter.favorites ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-gray-900/50 border-white/5 text-gray-500 hover:text-white'}`}><IconStar className="w-4 h-4" filled={galleryFilter.favorites} /></button></Tooltip>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <select value={galleryFilter.type ?? ''} onChange={e => updateGalleryFilter({ type: (e.target.value || undefined) as GalleryFilter['type'] })} className="bg-gray-900/50 border border-white/5 rounded-xl px-3 py-2 text-[8px] font-black uppercase tracking-widest text-gray-400 outline-none cursor-pointer">
+                    <option value="">All types</option><option value="generated">Generated</option><option value="edited">Edited</option>
+                  </select>
+                  <select value={galleryFilter.providerId ?? ''} onChange={e => updateGalleryFilter({ providerId: e.target.value || undefined })} className="bg-gray-900/50 border border-white/5 rounded-xl px-3 py-2 text-[8px] font-black uppercase tracking-widest text-gray-400 outline-none cursor-pointer">
+                    <option value="">All models</option>{getProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                  </select>
+                  <select value={galleryFilter.aspectRatio ?? ''} onChange={e => updateGalleryFilter({ aspectRatio: (e.target.value || undefined) as AspectRatio | undefined })} className="bg-gray-900/50 border border-white/5 rounded-xl px-3 py-2 text-[8px] font-black uppercase tracking-widest text-gray-400 outline-none cursor-pointer">
+                    <option value="">All ratios</option>{Object.values(AspectRatio).map(r => <option key={r} value={r}>{r}</option>)}
+                  </select>
+                  <select value={galleryDays} onChange={e => handleSetGalleryDays(parseInt(e.target.value))} className="bg-gray-900/50 border border-white/5 rounded-xl px-3 py-2 text-[8px] font-black uppercase tracking-widest text-gray-400 outline-none cursor-pointer">
+                    {GALLERY_DATE_RANGES.map(r => <option key={r.days} value={r.days}>{r.label}</option>)}
+                  </select>
+                  <select value={galleryFilter.tag ?? ''} onChange={e => updateGalleryFilter({ tag: e.target.value || undefined })} className="bg-gray-900/50 border border-white/5 rounded-xl px-3 py-2 text-[8px] font-black uppercase tracking-widest text-gray-400 outline-none cursor-pointer">
+                    <option value="">All tags</option>{galleryTags.map(t => <option key={t} value={t}>#{t}</option>)}
+                  </select>
+                  <select value={galleryFilter.collectionId ?? ''} onChange={e => updateGalleryFilter({ collectionId: e.target.value || undefined })} className="bg-gray-900/50 border border-white/5 rounded-xl px-3 py-2 text-[8px] font-black uppercase tracking-widest text-gray-400 outline-none cursor-pointer">
+                    <option value="">All collections</option>{galleryCollections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                  </select>
+                  <button onClick={handleCreateCollection} className="flex items-center gap-1 px-3 py-2 bg-white/5 rounded-xl text-[8px] font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors"><IconPlus className="w-3 h-3" /> Collection</button>
+                  {galleryFilter.collectionId && <button onClick={() => handleDeleteCollection(galleryFilter.collectionId!)} className="flex items-center gap-1 px-3 py-2 bg-red-500/10 rounded-xl text-[8px] font-black uppercase tracking-widest text-red-400 hover:bg-red-500/20 transition-colors"><IconTrash className="w-3 h-3" /> Delete Collection</button>}
+                </div>
+              </div>
+              {galleryItems.length === 0 ? <div className="text-center py-32 text-gray-500"><div className="flex items-center justify-center mb-4 opacity-20"><IconHistory className="w-16 h-16" /></div><p className="font-medium">{Object.values(galleryFilter).some(v => v !== undefined && v !== '' && v !== false) ? 'Nothing matches these filters.' : 'Your creations will appear here.'}</p></div> : <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">{galleryItems.map(item => (
+                <div key={item.id} className="group relative bg-gray-900/50 backdrop-blur border border-white/5 rounded-[30px] md:rounded-[32px] overflow-hidden shadow-xl transition-all hover:scale-[1.02]"><BlobImage blob={item.thumbnail} className="w-full h-56 md:h-64 object-cover" alt="Gallery item" /><div className="p-5 md:p-6"><div className="flex justify-between items-start mb-3"><span className={`text-[8px] md:text-[9px] font-black uppercase tracking-widest px-2.5 py-1 rounded-full ${item.type === 'generated' ? 'bg-indigo-500/20 text-indigo-400' : 'bg-purple-500/20 text-purple-400'}`}>{item.type}</span><span className="text-[9px] md:text-[10px] text-gray-600 font-bold">{new Date(item.timestamp).toLocaleDateString()}</span></div><p className="text-sm text-gray-300 font-medium line-clamp-2 leading-relaxed">{item.prompt}</p>{item.params && <p className="mt-2 text-[8px] font-black uppercase tracking-widest text-gray-600">{describeParams(item.params)}</p>}{item.tags && item.tags.length > 0 && <div className="mt-3 flex flex-wrap gap-1.5">{item.tags.map(t => <span key={t} className="flex items-center gap-1 px-2 py-0.5 bg-white/5 rounded-full text-[8px] font-black uppercase tracking-widest text-gray-400"><button onClick={() => updateGalleryFilter({ tag: t })} className="hover:text-white">#{t}</button><button onClick={() => handleRemoveTag(item, t)} className="hover:text-red-400"><IconX className="w-2.5 h-2.5" /></button></span>)}</div>}<div className="mt-4 flex items-center gap-2"><button onClick={() => handleToggleFavorite(item)} className={`p-2 rounded-lg transition-colors ${item.favoritedAt !== undefined ? 'text-yellow-400 bg-yellow-400/10' : 'text-gray-500 bg-white/5 hover:text-white'}`}><IconStar className="w-3.5 h-3.5" filled={item.favoritedAt !== undefined} /></button><button onClick={() => handleAddTags(item)} className="p-2 bg-white/5 rounded-lg text-gray-500 hover:text-white transition-colors"><IconTag className="w-3.5 h-3.5" /></button>{galleryCollections.length > 0 && <select value="" onChange={e => e.target.value && handleToggleCollection(item, e.target.value)} className="flex-1 min-w-0 bg-white/5 rounded-lg px-2 py-2 text-[8px] font-black uppercase tracking-widest text-gray-500 outline-none cursor-pointer"><option value="">Collections{item.collectionIds?.length ? ` (${item.collectionIds.length})` : ''}</option>{galleryCollections.map(c => <option key={c.id} value={c.id}>{item.collectionIds?.includes(c.id) ? '✓ ' : ''}{c.name}</option>)}</select>}</div></div>{gallerySelection ? <button onClick={() => toggleGallerySelection(item.id)} className={`absolute top-0 inset-x-0 h-56 md:h-64 flex items-start justify-end p-4 transition-colors ${gallerySelection.includes(item.id) ? 'bg-indigo-600/30' : 'hover:bg-black/30'}`}><span className={`w-7 h-7 rounded-full border-2 flex items-center justify-center ${gallerySelection.includes(item.id) ? 'bg-indigo-600 border-indigo-400 text-white' : 'border-white/60 bg-black/40'}`}>{gallerySelection.includes(item.id) && <IconCheck className="w-4 h-4" />}</span></button> : <div className="absolute top-0 inset-x-0 h-56 md:h-64 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-3"><Tooltip text="Open in Editor"><button onClick={() => handleOpenInEditor(item)} className="p-3.5 md:p-4 bg-white/10 backdrop-blur rounded-full text-white hover:scale-110 transition-all"><IconPen className="w-5 h-5 md:w-6 md:h-6" /></button></Tooltip><Tooltip text="Regenerate"><button onClick={() => handleRegenerate(item)} className="p-3.5 md:p-4 bg-white/10 backdrop-blur rounded-full text-white hover:scale-110 transition-all"><IconRestore className="w-5 h-5 md:w-6 md:h-6" /></button></Tooltip><Tooltip text="Use as Reference"><button onClick={() => handleUseAsReference(item)} className="p-3.5 md:p-4 bg-white/10 backdrop-blur rounded-full text-white hover:scale-110 transition-all"><IconImage className="w-5 h-5 md:w-6 md:h-6" /></button></Tooltip><Tooltip text="Lineage"><button onClick={() => handleOpenLineage(item)} className="p-3.5 md:p-4 bg-white/10 backdrop-blur rounded-full text-white hover:scale-110 transition-all"><IconHistory className="w-5 h-5 md:w-6 md:h-6" /></button></Tooltip><button onClick={() => openImageExport(item)} className="p-3.5 md:p-4 bg-white/10 backdrop-blur rounded-full text-white hover:scale-110 transition-all"><IconDownload className="w-5 h-5 md:w-6 md:h-6" /></button><button onClick={() => { if (confirm('Delete?')) deleteItem(item.id).then(loadGallery); }} className="p-3.5 md:p-4 bg-red-500/20 rounded-full text-red-400 hover:scale-110 transition-all"><IconTrash className="w-5 h-5 md:w-6 md:h-6" /></button></div>}</div>
               ))}</div>}
+              <div ref={galleryEndRef} className="h-px" />
             </div>
+            {lineage && (
+              <div className="fixed inset-0 z-[100] bg-black/95 backdrop-blur flex items-center justify-center p-4 md:p-6 animate-fade-in" onClick={() => setLineage(null)}>
+                <div className="bg-[#0c0c0e] rounded-[30px] md:rounded-[40px] p-6 md:p-8 max-w-2xl w-full max-h-[85vh] overflow-y-auto custom-scrollbar border border-white/10 relative shadow-2xl" onClick={e => e.stopPropagation()}>
+                  <button onClick={() => setLineage(null)} className="absolute top-4 right-4 p-2 bg-gray-900 rounded-xl text-white shadow-xl hover:rotate-90 transition-transform"><IconX className="w-5 h-5" /></button>
+                  <h2 className="text-xl md:text-2xl font-black uppercase mb-6 text-white tracking-widest">Lineage</h2>
+                  <div className="space-y-3">
+                    {lineage.chain.map((entry, i) => (
+                      <div key={entry.id} className={`flex items-center gap-4 p-3 rounded-2xl border ${entry.id === lineage.item.id ? 'bg-indigo-600/20 border-indigo-500/40' : 'bg-white/5 border-white/5'}`}>
+                        <span className="text-[8px] font-black text-gray-600 w-4 text-center">{i + 1}</span>
+                        <BlobImage blob={entry.thumbnail} className="w-14 h-14 rounded-xl object-cover bg-black" alt={entry.type} />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2"><span className="text-[8px] font-black uppercase tracking-widest text-indigo-400">{entry.type}</span><span className="text-[8px] font-bold text-gray-600">{new Date(entry.timestamp).toLocaleString()}</span></div>
+                          <p className="text-xs text-gray-300 truncate">{entry.prompt}</p>
+                          {entry.params && <p className="text-[8px] font-black uppercase tracking-widest text-gray-600">{describeParams(entry.params)}</p>}
+                        </div>
+                        {entry.type !== 'source' && <button onClick={() => handleRegenerate(entry)} className="p-2 bg-white/5 rounded-lg text-gray-400 hover:text-white transition-colors"><IconRestore className="w-4 h-4" /></button>}
+                        <button onClick={() => handleOpenInEditor(entry)} className="p-2 bg-white/5 rounded-lg text-gray-400 hover:text-white transition-colors"><IconPen className="w-4 h-4" /></button>
+                      </div>
+                    ))}
+                  </div>
+                  {lineage.derived.length > 0 && (
+                    <>
+                      <div className="text-[8px] font-black uppercase tracking-widest text-gray-500 mt-6 mb-3">Edits made from this</div>
+                      <div className="grid grid-cols-3 md:grid-cols-4 gap-3">
+                        {lineage.derived.map(d => (
+                          <button key={d.id} onClick={() => handleOpenLineage(d)} className="rounded-xl overflow-hidden border border-white/5 hover:border-indigo-500/40 transition-all" title={d.prompt}><BlobImage blob={d.thumbnail} className="w-full aspect-square object-cover" alt="Edit" /></button>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         )}
       </main>
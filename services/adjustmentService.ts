@@ -0,0 +1,180 @@
+import { Adjustment, AdjustmentType, CurvesParams, LevelsParams, BrightnessContrastParams, HueSaturationParams } from "../types";
+
+export const ADJUSTMENT_LABELS: Record<AdjustmentType, string> = {
+  levels: 'Levels',
+  curves: 'Curves',
+  hueSaturation: 'Hue / Saturation',
+  brightnessContrast: 'Brightness / Contrast',
+};
+
+export const createDefaultAdjustment = (type: AdjustmentType): Adjustment => {
+  switch (type) {
+    case 'levels':
+      return { type, params: { inputBlack: 0, inputWhite: 255, gamma: 1, outputBlack: 0, outputWhite: 255 } };
+    case 'curves':
+      return { type, params: { points: [{ x: 0, y: 0 }, { x: 64, y: 64 }, { x: 128, y: 128 }, { x: 192, y: 192 }, { x: 255, y: 255 }] } };
+    case 'hueSaturation':
+      return { type, params: { hue: 0, saturation: 0, lightness: 0 } };
+    case 'brightnessContrast':
+      return { type, params: { brightness: 0, contrast: 0 } };
+  }
+};
+
+const clamp255 = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+
+const levelsLut = ({ inputBlack, inputWhite, gamma, outputBlack, outputWhite }: LevelsParams) => {
+  const lut = new Uint8ClampedArray(256);
+  const range = Math.max(1, inputWhite - inputBlack);
+  for (let v = 0; v < 256; v++) {
+    const n = Math.max(0, Math.min(1, (v - inputBlack) / range));
+    lut[v] = clamp255(outputBlack + Math.pow(n, 1 / Math.max(0.01, gamma)) * (outputWhite - outputBlack));
+  }
+  return lut;
+};
+
+// Monotone cubic interpolation (Fritsch-Carlson) so the curve never overshoots between points.
+export const curvesLut = ({ points }: CurvesParams) => {
+  const pts = [...points].sort((a, b) => a.x - b.x);
+  const lut = new Uint8ClampedArray(256);
+  const n = pts.length;
+  if (n < 2) {
+    for (let v = 0; v < 256; v++) lut[v] = v;
+    return lut;
+  }
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) slopes.push((pts[i + 1].y - pts[i].y) / Math.max(1, pts[i + 1].x - pts[i].x));
+  const tangents = pts.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === n - 1) return slopes[n - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) { tangents[i] = 0; tangents[i + 1] = 0; continue; }
+    const a = tangents[i] / slopes[i], b = tangents[i + 1] / slopes[i];
+    const h = a * a + b * b;
+    if (h > 9) { const t = 3 / Math.sqrt(h); tangents[i] = t * a * slopes[i]; tangents[i + 1] = t * b * slopes[i]; }
+  }
+  let seg = 0;
+  for (let v = 0; v < 256; v++) {
+    if (v <= pts[0].x) { lut[v] = clamp255(pts[0].y); continue; }
+    if (v >= pts[n - 1].x) { lut[v] = clamp255(pts[n - 1].y); continue; }
+    while (seg < n - 2 && v > pts[seg + 1].x) seg++;
+    const p0 = pts[seg], p1 = pts[seg + 1];
+    const dx = Math.max(1, p1.x - p0.x);
+    const t = (v - p0.x) / dx, t2 = t * t, t3 = t2 * t;
+    lut[v] = clamp255(
+      (2 * t3 - 3 * t2 + 1) * p0.y + (t3 - 2 * t2 + t) * dx * tangents[seg] +
+      (-2 * t3 + 3 * t2) * p1.y + (t3 - t2) * dx * tangents[seg + 1]
+    );
+  }
+  return lut;
+};
+
+const brightnessContrastLut = ({ brightness, contrast }: BrightnessContrastParams) => {
+  const lut = new Uint8ClampedArray(256);
+  const c = contrast * 2.55;
+  const factor = (259 * (c + 255)) / (255 * (259 - c));
+  for (let v = 0; v < 256; v++) lut[v] = clamp255(factor * (v - 128) + 128 + brightness * 2.55);
+  return lut;
+};
+
+const applyHueSaturation = (data: Uint8ClampedArray, { hue, saturation, lightness }: HueSaturationParams) => {
+  const hueShift = hue / 360;
+  const sat = 1 + saturation / 100;
+  const light = lightness / 100;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i] / 255, g = data[i + 1] / 255, b = data[i + 2] / 255;
+    const max = Math.max(r, g, b), min = Math.min(r, g, b);
+    let h = 0, s = 0;
+    let l = (max + min) / 2;
+    const d = max - min;
+    if (d > 0) {
+      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+      if (max === r) h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
+      else if (max === g) h = ((b - r) / d + 2) / 6;
+      else h = ((r - g) / d + 4) / 6;
+    }
+    h = (h + hueShift + 1) % 1;
+    s = Math.max(0, Math.min(1, s * sat));
+    l = light >= 0 ? l + (1 - l) * light : l * (1 + light);
+    if (s === 0) {
+      data[i] = data[i + 1] = data[i + 2] = l * 255;
+      continue;
+    }
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    const channel = (t: number) => {
+      if (t < 0) t += 1;
+      if (t > 1) t -= 1;
+      if (t < 1 / 6) return p + (q - p) * 6 * t;
+      if (t < 1 / 2) return q;
+      if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+      return p;
+    };
+    data[i] = channel(h + 1 / 3) * 255;
+    data[i + 1] = channel(h) * 255;
+    data[i + 2] = channel(h - 1 / 3) * 255;
+  }
+};
+
+/**
+ * Apply an adjustment to the RGB channels of `image` in place; alpha is left untouched.
+ */
+export const applyAdjustment = (image: ImageData, adjustment: Adjustment) => {
+  const data = image.data;
+  if (adjustment.type === 'hueSaturation') {
+    applyHueSaturation(data, adjustment.params);
+    return;
+  }
+  const lut = adjustment.type === 'levels' ? levelsLut(adjustment.params)
+    : adjustment.type === 'curves' ? curvesLut(adjustment.params)
+    : brightnessContrastLut(adjustment.params);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[data[i]];
+    data[i + 1] = lut[data[i + 1]];
+    data[i + 2] = lut[data[i + 2]];
+  }
+};
+
+export interface AdjustmentSlider {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+}
+
+// Controls shown in the layer panel. Curves keys are indices into the control points.
+export const ADJUSTMENT_SLIDERS: Record<AdjustmentType, AdjustmentSlider[]> = {
+  levels: [
+    { key: 'inputBlack', label: 'Input Black', min: 0, max: 254 },
+    { key: 'inputWhite', label: 'Input White', min: 1, max: 255 },
+    { key: 'gamma', label: 'Gamma', min: 0.1, max: 5, step: 0.05 },
+    { key: 'outputBlack', label: 'Output Black', min: 0, max: 255 },
+    { key: 'outputWhite', label: 'Output White', min: 0, max: 255 },
+  ],
+  curves: [
+    { key: '1', label: 'Shadows', min: 0, max: 255 },
+    { key: '2', label: 'Midtones', min: 0, max: 255 },
+    { key: '3', label: 'Highlights', min: 0, max: 255 },
+  ],
+  hueSaturation: [
+    { key: 'hue', label: 'Hue', min: -180, max: 180 },
+    { key: 'saturation', label: 'Saturation', min: -100, max: 100 },
+    { key: 'lightness', label: 'Lightness', min: -100, max: 100 },
+  ],
+  brightnessContrast: [
+    { key: 'brightness', label: 'Brightness', min: -100, max: 100 },
+    { key: 'contrast', label: 'Contrast', min: -100, max: 100 },
+  ],
+};
+
+export const getAdjustmentValue = (adjustment: Adjustment, key: string): number =>
+  adjustment.type === 'curves' ? adjustment.params.points[Number(key)]?.y ?? 0 : (adjustment.params as any)[key];
+
+export const setAdjustmentValue = (adjustment: Adjustment, key: string, value: number): Adjustment => {
+  if (adjustment.type === 'curves') {
+    return { ...adjustment, params: { points: adjustment.params.points.map((p, i) => i === Number(key) ? { ...p, y: value } : p) } };
+  }
+  return { ...adjustment, params: { ...adjustment.params, [key]: value } } as Adjustment;
+};
@@ -0,0 +1,127 @@
+import JSZip from "jszip";
+import { GalleryCollection, HistoryItem } from "../types";
+import { findItemByHash, getCollections, getItem, getLineage, hashBlob, saveCollection, saveImageItem } from "./storageService";
+
+export const ARCHIVE_FORMAT = 'magiclens-gallery';
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_EXTENSION = '.zip';
+const MANIFEST_NAME = 'manifest.json';
+
+export interface ArchiveEntry extends Omit<HistoryItem, 'image' | 'thumbnail' | 'keywords'> {
+  // Path of the image inside the zip
+  file: string;
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  items: ArchiveEntry[];
+  collections: GalleryCollection[];
+}
+
+export interface ImportResult {
+  imported: number;
+  // Already in the gallery, matched by id or by image content
+  duplicates: number;
+}
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+const MIME_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+/**
+ * Add the ancestors of every item so edit chains stay traceable after import.
+ */
+export const withLineage = async (items: HistoryItem[]): Promise<HistoryItem[]> => {
+  const byId = new Map<string, HistoryItem>();
+  for (const item of items) {
+    for (const ancestor of await getLineage(item.id)) byId.set(ancestor.id, ancestor);
+  }
+  return Array.from(byId.values()).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Pack items into a zip with one file per image and a JSON manifest of their metadata.
+ */
+export const exportArchive = async (items: HistoryItem[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const collectionIds = new Set(items.flatMap(i => i.collectionIds ?? []));
+  const entries: ArchiveEntry[] = items.map(({ image, thumbnail, keywords, ...meta }) => {
+    const file = `images/${meta.id}.${EXTENSIONS[image.type] ?? 'png'}`;
+    // Images are already compressed
+    zip.file(file, image, { compression: 'STORE' });
+    return { ...meta, file };
+  });
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    items: entries,
+    collections: (await getCollections()).filter(c => collectionIds.has(c.id)),
+  };
+  zip.file(MANIFEST_NAME, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+const parseManifest = (json: string): ArchiveManifest => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Not a MagicLens gallery archive");
+  }
+  if (data?.format !== ARCHIVE_FORMAT || !Array.isArray(data.items)) {
+    throw new Error("Not a MagicLens gallery archive");
+  }
+  if (typeof data.version !== 'number' || data.version > ARCHIVE_VERSION) {
+    throw new Error(`Unsupported archive version ${data.version}`);
+  }
+  return { ...data, collections: Array.isArray(data.collections) ? data.collections : [] } as ArchiveManifest;
+};
+
+/**
+ * Import an archive made by exportArchive. Items whose id or image content is already in the
+ * gallery are skipped, so importing the same archive twice is harmless.
+ */
+export const importArchive = async (file: Blob): Promise<ImportResult> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error("Not a MagicLens gallery archive");
+  }
+  const manifestFile = zip.file(MANIFEST_NAME);
+  if (!manifestFile) throw new Error("Not a MagicLens gallery archive");
+  const manifest = parseManifest(await manifestFile.async('string'));
+
+  const known = new Set((await getCollections()).map(c => c.id));
+  for (const c of manifest.collections) {
+    if (!known.has(c.id)) await saveCollection(c);
+  }
+
+  const result: ImportResult = { imported: 0, duplicates: 0 };
+  // The manifest's hash is not trusted; it is recomputed from the image bytes
+  for (const { file: path, hash, ...meta } of manifest.items) {
+    const entry = zip.file(path);
+    if (!entry) throw new Error(`Archive is missing ${path}`);
+    if (await getItem(meta.id)) { result.duplicates++; continue; }
+    const ext = path.split('.').pop()?.toLowerCase() ?? '';
+    const image = new Blob([await entry.async('arraybuffer')], { type: MIME_TYPES[ext] ?? 'image/png' });
+    const imageHash = await hashBlob(image);
+    if (imageHash && await findItemByHash(imageHash)) { result.duplicates++; continue; }
+    await saveImageItem({ ...meta, image });
+    result.imported++;
+  }
+  return result;
+};
+
+export const downloadArchive = (archive: Blob) => {
+  const url = URL.createObjectURL(archive);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `magiclens-gallery-${new Date().toISOString().slice(0, 10)}${ARCHIVE_EXTENSION}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
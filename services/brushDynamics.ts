@@ -0,0 +1,57 @@
+import { BrushDynamics, DynamicsCurve } from "../types";
+
+export interface StylusSample {
+  pressure: number;
+  tilt: number;
+}
+
+export const DEFAULT_BRUSH_DYNAMICS: BrushDynamics = {
+  size: { input: 'pressure', min: 20, gamma: 1 },
+  flow: { input: 'none', min: 100, gamma: 1 },
+  opacity: { input: 'none', min: 100, gamma: 1 },
+};
+
+// Mice and fingers report no real pressure or tilt, so they paint at full strength.
+const FULL_STRENGTH: StylusSample = { pressure: 1, tilt: 0 };
+
+export const sampleStylus = (e: PointerEvent): StylusSample => {
+  if (e.pointerType !== 'pen') return FULL_STRENGTH;
+  const tiltX = e.tiltX || 0, tiltY = e.tiltY || 0;
+  return {
+    // Some pens report 0 for the first event of a stroke
+    pressure: e.pressure > 0 ? e.pressure : 0.5,
+    tilt: Math.min(1, Math.hypot(tiltX, tiltY) / 90),
+  };
+};
+
+/**
+ * Multiplier (min/100 to 1) a curve gives for a stylus sample.
+ */
+export const applyCurve = (curve: DynamicsCurve, sample: StylusSample): number => {
+  if (curve.input === 'none') return 1;
+  const value = curve.input === 'pressure' ? sample.pressure : sample.tilt;
+  const min = curve.min / 100;
+  return min + (1 - min) * Math.pow(Math.max(0, Math.min(1, value)), curve.gamma);
+};
+
+export interface BrushFactors {
+  size: number;
+  flow: number;
+  opacity: number;
+}
+
+export const brushFactors = (dynamics: BrushDynamics, sample: StylusSample): BrushFactors => ({
+  size: applyCurve(dynamics.size, sample),
+  flow: applyCurve(dynamics.flow, sample),
+  opacity: applyCurve(dynamics.opacity, sample),
+});
+
+/**
+ * Points of the response curve as an SVG path in a `size` x `size` box, for the settings preview.
+ */
+export const curvePath = (curve: DynamicsCurve, size: number, steps = 24): string =>
+  Array.from({ length: steps + 1 }, (_, i) => {
+    const t = i / steps;
+    const v = applyCurve({ ...curve, input: 'pressure' }, { pressure: t, tilt: 0 });
+    return `${i === 0 ? 'M' : 'L'}${(t * size).toFixed(1)},${((1 - v) * size).toFixed(1)}`;
+  }).join(' ');
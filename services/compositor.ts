@@ -0,0 +1,118 @@
+import { Layer } from "../types";
+import { applyAdjustment } from "./adjustmentService";
+import { renderText } from "./textService";
+import { renderShape } from "./shapeService";
+import { getChildren } from "./layerTree";
+
+export interface CompositeOptions {
+  // Temporary blend mode or opacity for one layer, e.g. while hovering the blend mode menu
+  // or dragging the opacity slider.
+  preview?: { layerId: string; blendMode?: GlobalCompositeOperation; opacity?: number } | null;
+  // Live free transform of one layer; the pixels are only resampled when it is applied.
+  transform?: { layerId: string; matrix: DOMMatrix } | null;
+}
+
+// Offscreen canvases reused between frames for layers that need an intermediate render.
+const scratchCanvases = new Map<string, HTMLCanvasElement>();
+
+const getScratch = (key: string, width: number, height: number) => {
+  let c = scratchCanvases.get(key);
+  if (!c) {
+    c = document.createElement('canvas');
+    scratchCanvases.set(key, c);
+  }
+  if (c.width !== width || c.height !== height) {
+    c.width = width;
+    c.height = height;
+  } else {
+    c.getContext('2d')?.clearRect(0, 0, width, height);
+  }
+  return c;
+};
+
+const applyMask = (ctx: CanvasRenderingContext2D, mask: HTMLCanvasElement) => {
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(mask, 0, 0);
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+/**
+ * Returns the layer pixels with its mask applied, or the layer canvas itself when it has no active mask.
+ * The mask's alpha is the layer's visibility: opaque reveals, transparent hides.
+ */
+export const getMaskedSource = (layer: Layer): HTMLCanvasElement => {
+  if (!layer.mask || !layer.maskEnabled) return layer.canvas;
+  const c = getScratch('mask', layer.canvas.width, layer.canvas.height);
+  const ctx = c.getContext('2d');
+  if (!ctx) return layer.canvas;
+  ctx.drawImage(layer.canvas, 0, 0);
+  applyMask(ctx, layer.mask);
+  return c;
+};
+
+// Renders an adjustment layer: everything composited so far, recolored and masked.
+const getAdjustedSource = (ctx: CanvasRenderingContext2D, layer: Layer): HTMLCanvasElement | null => {
+  if (!layer.adjustment) return null;
+  const { width, height } = ctx.canvas;
+  const below = ctx.getImageData(0, 0, width, height);
+  applyAdjustment(below, layer.adjustment);
+  const c = getScratch('adjustment', width, height);
+  const cctx = c.getContext('2d');
+  if (!cctx) return null;
+  cctx.putImageData(below, 0, 0);
+  if (layer.mask && layer.maskEnabled) applyMask(cctx, layer.mask);
+  return c;
+};
+
+// Rasterizes a text or shape layer at the current canvas size, then masks it.
+const getVectorSource = (ctx: CanvasRenderingContext2D, layer: Layer): HTMLCanvasElement | null => {
+  const c = getScratch('vector', ctx.canvas.width, ctx.canvas.height);
+  const cctx = c.getContext('2d');
+  if (!cctx) return null;
+  if (layer.text) renderText(cctx, layer.text);
+  else if (layer.shape) renderShape(cctx, layer.shape);
+  else return null;
+  if (layer.mask && layer.maskEnabled) applyMask(cctx, layer.mask);
+  return c;
+};
+
+const getLayerSource = (ctx: CanvasRenderingContext2D, layer: Layer) => {
+  if (layer.kind === 'adjustment') return getAdjustedSource(ctx, layer);
+  if (layer.kind === 'text' || layer.kind === 'shape') return getVectorSource(ctx, layer);
+  return getMaskedSource(layer);
+};
+
+// Composites a group's members on their own, so the group blends with what is below as one layer.
+const getGroupSource = (ctx: CanvasRenderingContext2D, layers: Layer[], group: Layer, options: CompositeOptions, depth: number): HTMLCanvasElement | null => {
+  const c = getScratch(`group${depth}`, ctx.canvas.width, ctx.canvas.height);
+  const cctx = c.getContext('2d');
+  if (!cctx) return null;
+  drawLayers(cctx, layers, group.id, options, depth + 1);
+  if (group.mask && group.maskEnabled) applyMask(cctx, group.mask);
+  return c;
+};
+
+const drawLayers = (ctx: CanvasRenderingContext2D, layers: Layer[], parentId: string | undefined, options: CompositeOptions, depth: number) => {
+  getChildren(layers, parentId).forEach(layer => {
+    if (!layer.visible) return;
+    const source = layer.kind === 'group' ? getGroupSource(ctx, layers, layer, options, depth) : getLayerSource(ctx, layer);
+    if (!source) return;
+    const preview = options.preview?.layerId === layer.id ? options.preview : null;
+    ctx.globalAlpha = preview?.opacity ?? layer.opacity;
+    ctx.globalCompositeOperation = preview?.blendMode ?? layer.blendMode;
+    const matrix = options.transform?.layerId === layer.id ? options.transform.matrix : null;
+    if (matrix) ctx.setTransform(matrix);
+    ctx.drawImage(source, 0, 0);
+    if (matrix) ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'source-over';
+  });
+};
+
+/**
+ * Draw the visible layers bottom-to-top onto `ctx`, honoring opacity, blend mode, masks,
+ * groups and adjustment, text and shape layers.
+ */
+export const compositeLayers = (ctx: CanvasRenderingContext2D, layers: Layer[], options: CompositeOptions = {}) => {
+  drawLayers(ctx, layers, undefined, options, 0);
+};
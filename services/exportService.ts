@@ -0,0 +1,229 @@
+import { drawTransformed } from "./transformService";
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mime: string; extension: string; lossy: boolean; alpha: boolean }> = {
+  png: { label: 'PNG', mime: 'image/png', extension: 'png', lossy: false, alpha: true },
+  jpeg: { label: 'JPEG', mime: 'image/jpeg', extension: 'jpg', lossy: true, alpha: false },
+  webp: { label: 'WebP', mime: 'image/webp', extension: 'webp', lossy: true, alpha: true },
+};
+
+export const EXPORT_SCALES = [0.5, 1, 2];
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // 1-100, for the lossy formats
+  quality: number;
+  // Multiple of the source size, or null to use exact dimensions
+  scale: number | null;
+  // Matte is painted under transparent pixels; formats without alpha always get it
+  background: 'transparent' | 'matte';
+  matte: string;
+  // Editor exports only: the whole visible stack or just the active layer
+  layers: 'visible' | 'active';
+  embedMetadata: boolean;
+}
+
+// Written into PNG text chunks or an XMP packet
+export interface ExportMetadata {
+  title?: string;
+  prompt?: string;
+  model?: string;
+  createdAt: number;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+  quality: 90,
+  scale: 1,
+  background: 'transparent',
+  matte: '#ffffff',
+  layers: 'visible',
+  embedMetadata: true,
+};
+
+const SETTINGS_STORAGE_KEY = 'magicLens_exportSettings';
+const SOFTWARE = 'MagicLens AI';
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+    const settings = { ...DEFAULT_EXPORT_SETTINGS, ...stored };
+    return settings.format in EXPORT_FORMATS ? settings : DEFAULT_EXPORT_SETTINGS;
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+export const storeExportSettings = (settings: ExportSettings) => localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+
+/**
+ * File name from the prompt (or title) and the time the image was made, e.g.
+ * "a-lighthouse-at-dusk-20240314-091502.webp". The same image always gets the same name.
+ */
+export const exportFilename = (text: string, timestamp: number, format: ExportFormat): string => {
+  const slug = text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 48).replace(/-+$/, '') || 'magiclens';
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+  return `${slug}-${stamp}.${EXPORT_FORMATS[format].extension}`;
+};
+
+/**
+ * Scale `source` to width x height, put it on the matte if needed and encode it.
+ * Throws when the browser can't encode the format (Safari has no WebP encoder).
+ */
+export const encodeImage = async (
+  source: HTMLCanvasElement, width: number, height: number, settings: ExportSettings, metadata: ExportMetadata | null
+): Promise<Blob> => {
+  const format = EXPORT_FORMATS[settings.format];
+  const c = document.createElement('canvas');
+  c.width = Math.max(1, Math.round(width));
+  c.height = Math.max(1, Math.round(height));
+  const ctx = c.getContext('2d');
+  if (!ctx) throw new Error("Could not create the export canvas");
+  if (settings.background === 'matte' || !format.alpha) {
+    ctx.fillStyle = settings.matte;
+    ctx.fillRect(0, 0, c.width, c.height);
+  }
+  drawTransformed(ctx, source, new DOMMatrix().scale(c.width / source.width, c.height / source.height));
+
+  const blob = await new Promise<Blob | null>(resolve => c.toBlob(resolve, format.mime, format.lossy ? settings.quality / 100 : undefined));
+  // Browsers fall back to PNG for types they can't encode
+  if (!blob || blob.type !== format.mime) throw new Error(`This browser can't save ${format.label} files`);
+  if (!metadata) return blob;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const tagged = settings.format === 'png' ? embedPngText(bytes, metadata)
+    : settings.format === 'jpeg' ? embedJpegXmp(bytes, metadata)
+    : embedWebpXmp(bytes, metadata, c.width, c.height);
+  return new Blob([tagged], { type: format.mime });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// -- Metadata --
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+const ascii = (s: string) => Uint8Array.from(s, ch => ch.charCodeAt(0));
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const body = concat([ascii(type), data]);
+  const out = new Uint8Array(body.length + 8);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(body, 4);
+  view.setUint32(body.length + 4, crc32(body));
+  return out;
+};
+
+// tEXt is Latin-1 only, so anything else goes into an uncompressed UTF-8 iTXt chunk
+const pngTextChunk = (keyword: string, text: string): Uint8Array => /^[\x20-\x7e\xa0-\xff\n]*$/.test(text)
+  ? pngChunk('tEXt', concat([ascii(keyword), new Uint8Array([0]), Uint8Array.from(text, ch => ch.charCodeAt(0))]))
+  : pngChunk('iTXt', concat([ascii(keyword), new Uint8Array([0, 0, 0, 0, 0]), new TextEncoder().encode(text)]));
+
+// Text chunks go right after IHDR, which is always the first chunk
+const embedPngText = (png: Uint8Array, m: ExportMetadata): Uint8Array => {
+  const entries: [string, string | undefined][] = [
+    ['Software', SOFTWARE], ['Creation Time', new Date(m.createdAt).toUTCString()],
+    ['Title', m.title], ['Description', m.prompt], ['Source', m.model],
+  ];
+  const chunks = entries.filter(([, v]) => v).map(([k, v]) => pngTextChunk(k, v!));
+  const ihdrEnd = 8 + 12 + new DataView(png.buffer, png.byteOffset).getUint32(8);
+  return concat([png.subarray(0, ihdrEnd), ...chunks, png.subarray(ihdrEnd)]);
+};
+
+const escapeXml = (s: string) => s.replace(/[<>&"']/g, ch => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[ch]!));
+
+const xmpPacket = (m: ExportMetadata): Uint8Array => {
+  const alt = (tag: string, value: string) => `<${tag}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${tag}>`;
+  const fields = [
+    `<xmp:CreatorTool>${escapeXml(m.model ? `${SOFTWARE} (${m.model})` : SOFTWARE)}</xmp:CreatorTool>`,
+    `<xmp:CreateDate>${new Date(m.createdAt).toISOString()}</xmp:CreateDate>`,
+    m.title && alt('dc:title', m.title),
+    m.prompt && alt('dc:description', m.prompt),
+  ].filter(Boolean).join('');
+  return new TextEncoder().encode(
+    `<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>` +
+    `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">` +
+    `<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/">${fields}</rdf:Description>` +
+    `</rdf:RDF></x:xmpmeta><?xpacket end="w"?>`
+  );
+};
+
+// An APP1 segment with the XMP namespace header, placed after SOI and any APP0 (JFIF) segment
+const embedJpegXmp = (jpeg: Uint8Array, m: ExportMetadata): Uint8Array => {
+  const payload = concat([ascii('http://ns.adobe.com/xap/1.0/\0'), xmpPacket(m)]);
+  if (payload.length + 2 > 0xffff) return jpeg;
+  const segment = new Uint8Array(payload.length + 4);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+  let at = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) at = 4 + ((jpeg[4] << 8) | jpeg[5]);
+  return concat([jpeg.subarray(0, at), segment, jpeg.subarray(at)]);
+};
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(8 + data.length + (data.length & 1));
+  out.set(ascii(type));
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+};
+
+/**
+ * WebP keeps XMP in an "XMP " chunk, which is only allowed in the extended format. Simple
+ * files from the encoder get a VP8X header chunk first.
+ */
+const embedWebpXmp = (webp: Uint8Array, m: ExportMetadata, width: number, height: number): Uint8Array => {
+  const XMP_FLAG = 0x04, ALPHA_FLAG = 0x10;
+  let body = webp.subarray(12);
+  const first = String.fromCharCode(...body.subarray(0, 4));
+  if (first === 'VP8X') {
+    body = body.slice();
+    body[8] |= XMP_FLAG;
+  } else {
+    const header = new Uint8Array(10);
+    // Lossless data records whether it uses alpha; lossy data with alpha already comes as VP8X
+    const alpha = first === 'VP8L' && (body[12] >> 4) & 1;
+    header[0] = XMP_FLAG | (alpha ? ALPHA_FLAG : 0);
+    const w = width - 1, h = height - 1;
+    header.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff, h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 4);
+    body = concat([riffChunk('VP8X', header), body]);
+  }
+  const chunks = concat([body, riffChunk('XMP ', xmpPacket(m))]);
+  const out = concat([ascii('RIFF'), new Uint8Array(4), ascii('WEBP'), chunks]);
+  new DataView(out.buffer).setUint32(4, out.length - 8, true);
+  return out;
+};
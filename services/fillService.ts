@@ -0,0 +1,74 @@
+import { GradientStop, GradientType, SymmetryMode } from "../types";
+import { floodRegion, regionToCanvas } from "./selectionService";
+
+export const DEFAULT_GRADIENT_STOPS: GradientStop[] = [
+  { offset: 0, color: '#000000' },
+  { offset: 1, color: '#ffffff' },
+];
+
+const createCanvas = (width: number, height: number) => {
+  const c = document.createElement('canvas');
+  c.width = width;
+  c.height = height;
+  return c;
+};
+
+/**
+ * Canvas-sized fill of `color` over what a bucket click at each seed reaches in `sample`.
+ * Several seeds (symmetry) fill the union of their regions. `tolerance` is per channel, 0-255.
+ */
+export const bucketFill = (sample: ImageData, seeds: { x: number, y: number }[], color: string, tolerance: number, contiguous: boolean): HTMLCanvasElement => {
+  const { width, height } = sample;
+  const region = new Uint8Array(width * height);
+  seeds.forEach(s => {
+    const r = floodRegion(sample, s.x, s.y, tolerance, contiguous);
+    for (let p = 0; p < r.length; p++) if (r[p]) region[p] = 255;
+  });
+  const c = regionToCanvas(region, width, height);
+  const ctx = c.getContext('2d')!;
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, width, height);
+  return c;
+};
+
+/**
+ * Canvas-sized gradient dragged from `from` to `to`. A radial gradient is centered on `from`.
+ * Mirror symmetry keeps the half the drag started in and reflects it onto the other half;
+ * radial symmetry has no sensible meaning for a gradient and is ignored.
+ */
+export const renderGradient = (
+  width: number, height: number, type: GradientType, from: { x: number, y: number }, to: { x: number, y: number },
+  stops: GradientStop[], symmetry: SymmetryMode
+): HTMLCanvasElement => {
+  const c = createCanvas(width, height);
+  const ctx = c.getContext('2d')!;
+  const gradient = type === 'linear'
+    ? ctx.createLinearGradient(from.x, from.y, to.x, to.y)
+    : ctx.createRadialGradient(from.x, from.y, 0, from.x, from.y, Math.max(1, Math.hypot(to.x - from.x, to.y - from.y)));
+  [...stops].sort((a, b) => a.offset - b.offset).forEach(s => gradient.addColorStop(Math.min(1, Math.max(0, s.offset)), s.color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  if (symmetry === 'vertical' || symmetry === 'horizontal') {
+    const vertical = symmetry === 'vertical';
+    const mirrored = createCanvas(width, height);
+    const mctx = mirrored.getContext('2d')!;
+    if (vertical) mctx.setTransform(-1, 0, 0, 1, width, 0); else mctx.setTransform(1, 0, 0, -1, 0, height);
+    mctx.drawImage(c, 0, 0);
+    // Replace the half opposite the drag start with the reflection
+    const startsFirst = vertical ? from.x < width / 2 : from.y < height / 2;
+    ctx.save();
+    ctx.beginPath();
+    if (vertical) ctx.rect(startsFirst ? width / 2 : 0, 0, width / 2, height);
+    else ctx.rect(0, startsFirst ? height / 2 : 0, width, height / 2);
+    ctx.clip();
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(mirrored, 0, 0);
+    ctx.restore();
+  }
+  return c;
+};
+
+export const gradientCss = (stops: GradientStop[]) =>
+  `linear-gradient(to right, ${[...stops].sort((a, b) => a.offset - b.offset).map(s => `${s.color} ${Math.round(s.offset * 100)}%`).join(', ')})`;
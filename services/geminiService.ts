@@ -1,5 +1,7 @@
 import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { AspectRatio, ImageResolution } from "../types";
+import { AspectRatio, ImageResolution, ImageProvider, ImageProviderCapabilities, ImageGenerateRequest, ImageEditRequest, ReferenceImage, ReferenceRole } from "../types";
+
+type GeminiImageModel = 'gemini-2.5-flash-image' | 'gemini-3-pro-image-preview';
 
 // Helpers
 const base64ToGenerativePart = (base64String: string, mimeType: string = 'image/png') => {
@@ -11,14 +13,64 @@ const base64ToGenerativePart = (base64String: string, mimeType: string = 'image/
   };
 };
 
+const extractImages = (response: GenerateContentResponse): string[] => {
+  const images: string[] = [];
+  if (response.candidates?.[0]?.content?.parts) {
+    for (const part of response.candidates[0].content.parts) {
+      if (part.inlineData) {
+        images.push(`data:image/png;base64,${part.inlineData.data}`);
+      }
+    }
+  }
+  return images;
+};
+
+const REFERENCE_INSTRUCTIONS: Record<ReferenceRole, string> = {
+  style: 'a style reference. Match its color palette, lighting, medium and overall look, but not its content',
+  subject: 'a subject reference. Keep this subject recognizable, with the same identity, features and details',
+  composition: 'a composition sketch. Follow its layout, framing and the placement of elements',
+};
+
+// Reference images go before the prompt, which says what each one is for.
+const referenceParts = (prompt: string, references: ReferenceImage[]): any[] => {
+  if (references.length === 0) return [{ text: prompt }];
+  const roles = references.map((r, i) => `Image ${i + 1} is ${REFERENCE_INSTRUCTIONS[r.role]}.`).join('\n');
+  return [
+    ...references.map(r => base64ToGenerativePart(r.image, r.image.match(/^data:(image\/\w+);/)?.[1])),
+    { text: `${prompt}\n\nUse the images above as references for a new image.\n${roles}` },
+  ];
+};
+
+const getAiStudio = () => (typeof window !== 'undefined' ? (window as any).aistudio : undefined);
+
+// Paid models need a user-selected API key when running inside AI Studio.
+const ensureSelectedKey = async () => {
+  const aistudio = getAiStudio();
+  if (!aistudio) return;
+  try {
+    const hasKey = await aistudio.hasSelectedApiKey();
+    if (!hasKey) await aistudio.openSelectKey();
+  } catch (e) { console.warn("API key check error", e); }
+};
+
+const handleKeyError = async (error: any) => {
+  const aistudio = getAiStudio();
+  if (error?.message?.includes("Requested entity was not found.") && aistudio) {
+    await aistudio.openSelectKey();
+  }
+};
+
 /**
  * Generate Image using specified model
  */
-export const generateImage = async (
+const generateImage = async (
   prompt: string,
   aspectRatio: AspectRatio,
   imageSize: ImageResolution,
-  model: 'gemini-2.5-flash-image' | 'gemini-3-pro-image-preview' = 'gemini-2.5-flash-image'
+  model: GeminiImageModel = 'gemini-2.5-flash-image',
+  seed?: number,
+  references: ReferenceImage[] = [],
+  signal?: AbortSignal
 ): Promise<string[]> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   try {
@@ -26,6 +78,8 @@ export const generateImage = async (
       imageConfig: {
         aspectRatio: aspectRatio,
       },
+      seed,
+      abortSignal: signal,
     };
 
     // imageSize is only supported for gemini-3 series
@@ -36,58 +90,84 @@ export const generateImage = async (
     const response: GenerateContentResponse = await ai.models.generateContent({
       model: model,
       contents: {
-        parts: [{ text: prompt }],
+        parts: referenceParts(prompt, references),
       },
       config: config,
     });
 
-    const images: string[] = [];
-    if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          images.push(`data:image/png;base64,${part.inlineData.data}`);
-        }
-      }
-    }
-    return images;
+    return extractImages(response);
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error("Error generating image:", error);
+    await handleKeyError(error);
     throw error;
   }
 };
 
 /**
- * Edit Image using Nano Banana (gemini-2.5-flash-image)
+ * Edit Image using the given model (Nano Banana by default)
+ * When a mask is given (white = editable, black = keep), it is sent as a second
+ * image part so the model knows which region the prompt applies to.
  */
-export const editImage = async (
+const editImage = async (
   imageBase64: string,
-  prompt: string
+  prompt: string,
+  maskBase64?: string,
+  model: GeminiImageModel = 'gemini-2.5-flash-image'
 ): Promise<string[]> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   try {
     const imagePart = base64ToGenerativePart(imageBase64);
-    
+    const parts: any[] = [imagePart];
+    if (maskBase64) {
+      parts.push(base64ToGenerativePart(maskBase64));
+      parts.push({ text: `${prompt}\n\nThe second image is an edit mask. Only change the area that is white in the mask and keep everything in the black area exactly as it is. Return the full image at the same framing.` });
+    } else {
+      parts.push({ text: prompt });
+    }
+
     const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
+      model,
       contents: {
-        parts: [
-          imagePart,
-          { text: prompt }
-        ],
+        parts,
       },
     });
 
-    const images: string[] = [];
-    if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          images.push(`data:image/png;base64,${part.inlineData.data}`);
-        }
-      }
-    }
-    return images;
+    return extractImages(response);
   } catch (error) {
     console.error("Error editing image:", error);
+    await handleKeyError(error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+const createGeminiProvider = (
+  model: GeminiImageModel,
+  label: string,
+  description: string,
+  capabilities: ImageProviderCapabilities,
+  requiresKeySelection = false
+): ImageProvider => ({
+  id: model,
+  label,
+  description,
+  capabilities,
+  prepare: requiresKeySelection ? ensureSelectedKey : undefined,
+  generate: ({ prompt, aspectRatio, imageSize, seed, references, signal }: ImageGenerateRequest) => generateImage(prompt, aspectRatio, imageSize, model, seed, references, signal),
+  edit: ({ image, prompt, mask }: ImageEditRequest) => editImage(image, prompt, mask, model),
+});
+
+export const geminiFlashProvider = createGeminiProvider(
+  'gemini-2.5-flash-image',
+  'Nano',
+  'Lightweight & fast. Great for quick drafts.',
+  { aspectRatios: Object.values(AspectRatio), resolutions: [ImageResolution.RES_1K], edit: true, seed: true, references: 3 }
+);
+
+export const geminiProProvider = createGeminiProvider(
+  'gemini-3-pro-image-preview',
+  'Pro',
+  'Maximum quality & detail. Requires API Key selection.',
+  { aspectRatios: Object.values(AspectRatio), resolutions: Object.values(ImageResolution), edit: true, seed: true, references: 6 },
+  true
+);
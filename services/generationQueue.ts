@@ -0,0 +1,52 @@
+import { AspectRatio, GenerationJob, ImageResolution, ReferenceImage } from "../types";
+
+export const MAX_JOBS_PER_BATCH = 100;
+export const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+export interface BatchRequest {
+  providerId: string;
+  prompts: string[];
+  aspectRatios: AspectRatio[];
+  imageSize: ImageResolution;
+  variations: number;
+  // Base seed; variation i uses baseSeed + i. Random per job when omitted.
+  baseSeed?: number;
+  // Sent with every job in the batch
+  references?: ReferenceImage[];
+}
+
+const randomSeed = () => Math.floor(Math.random() * 2147483647);
+
+// Splits the prompt box into one prompt per non-empty line.
+export const parsePromptList = (text: string): string[] =>
+  text.split('\n').map(p => p.trim()).filter(Boolean);
+
+export const countBatchJobs = ({ prompts, aspectRatios, variations }: Pick<BatchRequest, 'prompts' | 'aspectRatios' | 'variations'>) =>
+  prompts.length * aspectRatios.length * variations;
+
+/**
+ * Expand a batch into one job per prompt x aspect ratio x variation.
+ */
+export const buildJobs = (batch: BatchRequest, seedsSupported: boolean): GenerationJob[] => {
+  const jobs: GenerationJob[] = [];
+  const stamp = Date.now().toString(36);
+  batch.prompts.forEach(prompt => {
+    batch.aspectRatios.forEach(aspectRatio => {
+      for (let v = 0; v < batch.variations; v++) {
+        jobs.push({
+          id: `${stamp}-${jobs.length}`,
+          providerId: batch.providerId,
+          prompt,
+          aspectRatio,
+          imageSize: batch.imageSize,
+          seed: seedsSupported ? (batch.baseSeed !== undefined ? batch.baseSeed + v : randomSeed()) : undefined,
+          references: batch.references?.length ? batch.references : undefined,
+          status: 'queued',
+          results: [],
+          attempts: 0,
+        });
+      }
+    });
+  });
+  return jobs.slice(0, MAX_JOBS_PER_BATCH);
+};
@@ -0,0 +1,97 @@
+import { HistoryState, Layer, LayerSnapshot, PixelHistoryEntry, Rect, StackHistoryEntry, StackState } from "../types";
+
+export const DEFAULT_HISTORY_BUDGET_MB = 256;
+export const HISTORY_BUDGET_OPTIONS_MB = [64, 128, 256, 512, 1024];
+const BUDGET_STORAGE_KEY = 'magicLens_historyBudget';
+
+export const loadHistoryBudget = (): number => {
+  const stored = parseInt(localStorage.getItem(BUDGET_STORAGE_KEY) || '', 10);
+  return HISTORY_BUDGET_OPTIONS_MB.includes(stored) ? stored : DEFAULT_HISTORY_BUDGET_MB;
+};
+
+export const storeHistoryBudget = (mb: number) => localStorage.setItem(BUDGET_STORAGE_KEY, String(mb));
+
+export const snapshotLayers = (layers: Layer[]): LayerSnapshot[] => layers.map(l => ({ ...l }));
+
+export const restoreLayers = (snapshots: LayerSnapshot[]): Layer[] => snapshots.map(s => ({ ...s }));
+
+const canvasBytes = (c: HTMLCanvasElement) => c.width * c.height * 4;
+
+/**
+ * Clamp a rectangle to the canvas and round it outwards to whole pixels.
+ * Returns null when nothing of it lies on the canvas.
+ */
+export const clampRect = (rect: Rect, width: number, height: number): Rect | null => {
+  const x = Math.max(0, Math.floor(rect.x));
+  const y = Math.max(0, Math.floor(rect.y));
+  const right = Math.min(width, Math.ceil(rect.x + rect.width));
+  const bottom = Math.min(height, Math.ceil(rect.y + rect.height));
+  if (right <= x || bottom <= y) return null;
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+/**
+ * Record the pixels of `canvas` inside `rect`, using `backup` as the content before the edit.
+ */
+export const createPixelEntry = (canvas: HTMLCanvasElement, backup: HTMLCanvasElement, rect: Rect): PixelHistoryEntry | null => {
+  const r = clampRect(rect, canvas.width, canvas.height);
+  const ctx = canvas.getContext('2d');
+  const backupCtx = backup.getContext('2d');
+  if (!r || !ctx || !backupCtx) return null;
+  const before = backupCtx.getImageData(r.x, r.y, r.width, r.height);
+  const after = ctx.getImageData(r.x, r.y, r.width, r.height);
+  return { kind: 'pixels', canvas, rect: r, before, after, bytes: before.data.length + after.data.length };
+};
+
+/**
+ * Record a structural change. Only canvases that exist on one side of the change are
+ * counted towards memory, since the others are shared with the live document.
+ */
+export const createStackEntry = (before: StackState, after: StackState): StackHistoryEntry => {
+  const ownedCanvases = (state: StackState) => new Set(state.layers.flatMap(l => l.mask ? [l.canvas, l.mask] : [l.canvas]));
+  const beforeCanvases = ownedCanvases(before);
+  const afterCanvases = ownedCanvases(after);
+  let bytes = 0;
+  beforeCanvases.forEach(c => { if (!afterCanvases.has(c)) bytes += canvasBytes(c); });
+  afterCanvases.forEach(c => { if (!beforeCanvases.has(c)) bytes += canvasBytes(c); });
+  return { kind: 'stack', before, after, bytes };
+};
+
+export const historyBytes = (history: HistoryState[]) => history.reduce((sum, e) => sum + e.bytes, 0);
+
+/**
+ * Evict the oldest already-applied entries until the history fits into `budgetMb`.
+ * The entry at `step` is always kept so the latest change can still be undone.
+ */
+export const trimHistory = (history: HistoryState[], step: number, budgetMb: number) => {
+  const next = [...history];
+  const budget = budgetMb * 1024 * 1024;
+  let total = historyBytes(next);
+  while (total > budget && step > 0) {
+    total -= next.shift()!.bytes;
+    step--;
+  }
+  return { history: next, step };
+};
+
+/**
+ * Append an entry after `step`, dropping any redo branch, and trim to the budget.
+ */
+export const pushHistoryEntry = (history: HistoryState[], step: number, entry: HistoryState, budgetMb: number) => {
+  const next = history.slice(0, step + 1);
+  next.push(entry);
+  return trimHistory(next, next.length - 1, budgetMb);
+};
+
+/**
+ * Apply one entry backwards (undo) or forwards (redo). Pixel entries are written straight
+ * into their canvas; stack entries return the layer state the caller has to restore.
+ */
+export const applyHistoryEntry = (entry: HistoryState, direction: 'undo' | 'redo'): StackState | null => {
+  if (entry.kind === 'pixels') {
+    const data = direction === 'undo' ? entry.before : entry.after;
+    entry.canvas.getContext('2d')?.putImageData(data, entry.rect.x, entry.rect.y);
+    return null;
+  }
+  return direction === 'undo' ? entry.before : entry.after;
+};
@@ -0,0 +1,51 @@
+import { Layer } from "../types";
+
+// The layer stack is a flat array; groups are layers with kind 'group' and members point at
+// them through parentId. Siblings keep their relative array order, bottom to top.
+
+/**
+ * Group of a layer, or undefined at the top level. A parentId naming a missing group counts as
+ * top level, so a stale reference never hides a layer.
+ */
+export const getParentId = (layers: Layer[], layer: Layer): string | undefined =>
+  layer.parentId && layers.some(l => l.id === layer.parentId && l.kind === 'group') ? layer.parentId : undefined;
+
+export const getChildren = (layers: Layer[], parentId: string | undefined): Layer[] =>
+  layers.filter(l => getParentId(layers, l) === parentId);
+
+export const getDescendantIds = (layers: Layer[], id: string): Set<string> => {
+  const ids = new Set<string>();
+  const visit = (parentId: string) => getChildren(layers, parentId).forEach(c => { ids.add(c.id); visit(c.id); });
+  visit(id);
+  return ids;
+};
+
+/**
+ * Layers in panel order, bottom to top, each group right above its members.
+ * Members of collapsed groups are left out.
+ */
+export const flattenLayerTree = (layers: Layer[], collapsed: Set<string> = new Set()): { layer: Layer; depth: number }[] => {
+  const rows: { layer: Layer; depth: number }[] = [];
+  const visit = (parentId: string | undefined, depth: number) => getChildren(layers, parentId).forEach(layer => {
+    if (layer.kind === 'group' && !collapsed.has(layer.id)) visit(layer.id, depth + 1);
+    rows.push({ layer, depth });
+  });
+  visit(undefined, 0);
+  return rows;
+};
+
+// Hidden when the layer or any group around it is hidden
+export const isEffectivelyVisible = (layers: Layer[], layer: Layer): boolean => {
+  if (!layer.visible) return false;
+  const parentId = getParentId(layers, layer);
+  const parent = parentId && layers.find(l => l.id === parentId);
+  return parent ? isEffectivelyVisible(layers, parent) : true;
+};
+
+/**
+ * Sibling directly below the layer, the one "merge down" combines it with.
+ */
+export const getSiblingBelow = (layers: Layer[], layer: Layer): Layer | undefined => {
+  const siblings = getChildren(layers, getParentId(layers, layer));
+  return siblings[siblings.indexOf(layer) - 1];
+};
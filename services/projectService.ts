@@ -0,0 +1,105 @@
+import { BrushSettings, Layer, ProjectFile } from "../types";
+
+export const PROJECT_FORMAT = 'magiclens-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.mlens';
+
+const THUMBNAIL_SIZE = 256;
+
+/**
+ * Serialize the full layer stack into a versioned, self-contained project file.
+ */
+export const serializeProject = (
+  name: string,
+  layers: Layer[],
+  canvasSize: { width: number; height: number },
+  activeLayerId: string | null,
+  brush: BrushSettings,
+  background: string | null
+): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  name,
+  savedAt: Date.now(),
+  canvasSize: { ...canvasSize },
+  activeLayerId,
+  brush: { ...brush },
+  background,
+  layers: layers.map(l => ({
+    id: l.id,
+    name: l.name,
+    visible: l.visible,
+    opacity: l.opacity,
+    blendMode: l.blendMode,
+    data: l.canvas.toDataURL('image/png'),
+    mask: l.mask?.toDataURL('image/png'),
+    maskEnabled: l.maskEnabled,
+    kind: l.kind,
+    adjustment: l.adjustment,
+    text: l.text,
+    shape: l.shape,
+    parentId: l.parentId,
+    lockPixels: l.lockPixels,
+    lockAlpha: l.lockAlpha,
+  })),
+});
+
+/**
+ * Parse and validate a project file, upgrading older versions when needed.
+ */
+export const parseProject = (json: string): ProjectFile => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Not a MagicLens project file");
+  }
+  if (data?.format !== PROJECT_FORMAT || !Array.isArray(data.layers)) {
+    throw new Error("Not a MagicLens project file");
+  }
+  if (typeof data.version !== 'number' || data.version > PROJECT_VERSION) {
+    throw new Error(`Unsupported project version ${data.version}`);
+  }
+  // Documents were always composited on black before the background became a setting
+  if (data.background === undefined) data.background = '#000000';
+  return data as ProjectFile;
+};
+
+const decodeImage = (src: string, label: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error(`Failed to decode ${label}`));
+  img.src = src;
+});
+
+/**
+ * Decode the PNG data of every layer (and its mask), in stack order.
+ */
+export const loadLayerImages = (project: ProjectFile): Promise<{ image: HTMLImageElement; mask?: HTMLImageElement }[]> => {
+  return Promise.all(project.layers.map(async l => ({
+    image: await decodeImage(l.data, `layer "${l.name}"`),
+    mask: l.mask ? await decodeImage(l.mask, `mask of "${l.name}"`) : undefined,
+  })));
+};
+
+export const createProjectThumbnail = (source: HTMLCanvasElement): string => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(source.width, source.height));
+  const c = document.createElement('canvas');
+  c.width = Math.max(1, Math.round(source.width * scale));
+  c.height = Math.max(1, Math.round(source.height * scale));
+  c.getContext('2d')?.drawImage(source, 0, 0, c.width, c.height);
+  // WebP keeps transparent documents transparent; browsers that can't encode it fall back to PNG
+  return c.toDataURL('image/webp', 0.8);
+};
+
+export const downloadProject = (project: ProjectFile) => {
+  const blob = new Blob([JSON.stringify(project)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${project.name.replace(/[^\w.-]+/g, '_') || 'project'}${PROJECT_EXTENSION}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
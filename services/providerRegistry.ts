@@ -0,0 +1,31 @@
+import { ImageProvider } from "../types";
+import { geminiFlashProvider, geminiProProvider } from "./geminiService";
+
+// Providers in registration order; the Generate panel lists them in this order.
+const providers = new Map<string, ImageProvider>();
+
+export const DEFAULT_PROVIDER_ID = geminiFlashProvider.id;
+
+export const registerProvider = (provider: ImageProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getProviders = (): ImageProvider[] => Array.from(providers.values());
+
+export const getProvider = (id: string): ImageProvider => {
+  const provider = providers.get(id) ?? providers.get(DEFAULT_PROVIDER_ID);
+  if (!provider) throw new Error(`No image provider registered for "${id}"`);
+  return provider;
+};
+
+// Editing always goes through the default provider unless it cannot edit.
+export const getEditProvider = (): ImageProvider => {
+  const preferred = providers.get(DEFAULT_PROVIDER_ID);
+  if (preferred?.capabilities.edit) return preferred;
+  const fallback = getProviders().find(p => p.capabilities.edit);
+  if (!fallback) throw new Error("No registered image provider supports editing");
+  return fallback;
+};
+
+registerProvider(geminiFlashProvider);
+registerProvider(geminiProProvider);
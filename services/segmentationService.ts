@@ -0,0 +1,187 @@
+import { featherSelection, regionToCanvas } from "./selectionService";
+
+// Background removal. A rough foreground estimate, one byte per pixel (255 = subject) like the
+// regions from floodRegion, is refined into a soft mask that is put on the layer. The layer's
+// own pixels are left alone apart from optional decontamination of the semi-transparent edge.
+
+export type CutoutMethod = 'ai' | 'colorKey';
+
+export interface CutoutSettings {
+  method: CutoutMethod;
+  // How far a color may be from the key color and still count as background, 0-100
+  tolerance: number;
+  // Refinement passes over the edge band, 0 to skip
+  refine: number;
+  // Blur radius of the mask edge in pixels
+  feather: number;
+  // How much of the background color is removed from edge pixels, 0-100. Off by default since
+  // it is the one setting that rewrites the layer's pixels.
+  decontaminate: number;
+}
+
+export const DEFAULT_CUTOUT_SETTINGS: CutoutSettings = {
+  method: 'ai',
+  tolerance: 20,
+  refine: 2,
+  feather: 1,
+  decontaminate: 0,
+};
+
+// The model repaints the background in a flat key color, which is then keyed out locally.
+export const CUTOUT_PROMPT = "Replace the entire background with a flat, uniform pure green (#00FF00). Keep the subject exactly as it is: same position, size, colors and edges. Do not add shadows or outlines.";
+
+type Rgb = [number, number, number];
+
+// Median of the border pixels, which are background in nearly every photo worth cutting out
+const borderColor = (image: ImageData): Rgb => {
+  const { width, height, data } = image;
+  const channels: number[][] = [[], [], []];
+  const add = (x: number, y: number) => { const i = (y * width + x) * 4; for (let c = 0; c < 3; c++) channels[c].push(data[i + c]); };
+  for (let x = 0; x < width; x++) { add(x, 0); add(x, height - 1); }
+  for (let y = 1; y < height - 1; y++) { add(0, y); add(width - 1, y); }
+  return channels.map(values => values.sort((a, b) => a - b)[values.length >> 1]) as Rgb;
+};
+
+const colorDistance = (data: Uint8ClampedArray, i: number, c: Rgb) =>
+  Math.max(Math.abs(data[i] - c[0]), Math.abs(data[i + 1] - c[1]), Math.abs(data[i + 2] - c[2]));
+
+/**
+ * Subject estimate from a background color: everything within `tolerance` (0-255) of the
+ * border color is background. When `contiguous`, only background reachable from the border
+ * counts, so areas inside the subject that happen to match are kept.
+ */
+export const keyOutBackground = (image: ImageData, tolerance: number, contiguous: boolean): Uint8Array => {
+  const { width, height, data } = image;
+  const key = borderColor(image);
+  const matches = (p: number) => colorDistance(data, p * 4, key) <= tolerance;
+  const fg = new Uint8Array(width * height).fill(255);
+  if (!contiguous) {
+    for (let p = 0; p < fg.length; p++) if (matches(p)) fg[p] = 0;
+    return fg;
+  }
+  const stack: number[] = [];
+  const visit = (p: number) => { if (fg[p] && matches(p)) { fg[p] = 0; stack.push(p); } };
+  for (let x = 0; x < width; x++) { visit(x); visit((height - 1) * width + x); }
+  for (let y = 0; y < height; y++) { visit(y * width); visit(y * width + width - 1); }
+  while (stack.length) {
+    const p = stack.pop()!;
+    const x = p % width;
+    if (x > 0) visit(p - 1);
+    if (x < width - 1) visit(p + 1);
+    if (p >= width) visit(p - width);
+    if (p < fg.length - width) visit(p + width);
+  }
+  return fg;
+};
+
+/**
+ * Subject estimate from the model's response. Responses with real transparency are used as
+ * they are; opaque ones are expected to show the subject on a flat key color.
+ */
+export const foregroundFromResponse = (response: ImageData, tolerance: number): Uint8Array => {
+  const { data } = response;
+  const fg = new Uint8Array(response.width * response.height);
+  let transparent = false;
+  for (let p = 0; p < fg.length; p++) {
+    fg[p] = data[p * 4 + 3] >= 128 ? 255 : 0;
+    if (data[p * 4 + 3] < 250) transparent = true;
+  }
+  // Models repaint holes in the subject with the key color too, so keying isn't limited to the border
+  return transparent ? fg : keyOutBackground(response, tolerance, false);
+};
+
+// Fraction of set pixels in the (2r+1)² box around each pixel, from summed-area tables
+const boxAverage = (mask: Uint8Array, width: number, height: number, r: number): Float32Array => {
+  const sums = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += mask[y * width + x] ? 1 : 0;
+      sums[(y + 1) * (width + 1) + x + 1] = sums[y * (width + 1) + x + 1] + row;
+    }
+  }
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - r), y1 = Math.min(height, y + r + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - r), x1 = Math.min(width, x + r + 1);
+      const total = sums[y1 * (width + 1) + x1] - sums[y0 * (width + 1) + x1] - sums[y1 * (width + 1) + x0] + sums[y0 * (width + 1) + x0];
+      out[y * width + x] = total / ((x1 - x0) * (y1 - y0));
+    }
+  }
+  return out;
+};
+
+const colorBin = (data: Uint8ClampedArray, i: number) => ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+
+/**
+ * GrabCut-style refinement without the graph cut: color histograms of the pixels that are
+ * clearly subject or clearly background re-decide a band along the current edge, followed by
+ * a majority vote so the result stays in one piece.
+ */
+export const refineForeground = (image: ImageData, foreground: Uint8Array, passes: number): Uint8Array => {
+  const { width, height, data } = image;
+  const band = Math.max(2, Math.round(Math.min(width, height) / 100));
+  let current = foreground;
+  for (let pass = 0; pass < passes; pass++) {
+    const near = boxAverage(current, width, height, band);
+    const fgHist = new Float32Array(4096).fill(1), bgHist = new Float32Array(4096).fill(1);
+    let fgTotal = 4096, bgTotal = 4096;
+    for (let p = 0; p < current.length; p++) {
+      if (near[p] === 1) { fgHist[colorBin(data, p * 4)]++; fgTotal++; }
+      else if (near[p] === 0) { bgHist[colorBin(data, p * 4)]++; bgTotal++; }
+    }
+    const next = current.slice();
+    for (let p = 0; p < next.length; p++) {
+      if (near[p] === 0 || near[p] === 1) continue;
+      const bin = colorBin(data, p * 4);
+      next[p] = fgHist[bin] / fgTotal >= bgHist[bin] / bgTotal ? 255 : 0;
+    }
+    const votes = boxAverage(next, width, height, 1);
+    for (let p = 0; p < next.length; p++) if (near[p] > 0 && near[p] < 1) next[p] = votes[p] >= 0.5 ? 255 : 0;
+    current = next;
+  }
+  return current;
+};
+
+// Average color of the pixels the estimate calls background
+const backgroundColor = (image: ImageData, foreground: Uint8Array): Rgb => {
+  const sum = [0, 0, 0];
+  let n = 0;
+  for (let p = 0; p < foreground.length; p++) {
+    if (foreground[p]) continue;
+    for (let c = 0; c < 3; c++) sum[c] += image.data[p * 4 + c];
+    n++;
+  }
+  return n ? sum.map(v => v / n) as Rgb : borderColor(image);
+};
+
+/**
+ * Mask canvas for the layer, plus decontaminated pixels when asked for. Decontamination only
+ * changes pixels the mask makes partly transparent, taking out the background color that
+ * bled into them; fully opaque subject pixels are never touched.
+ */
+export const buildCutout = (image: ImageData, foreground: Uint8Array, settings: CutoutSettings): { mask: HTMLCanvasElement; pixels: ImageData | null } => {
+  const { width, height } = image;
+  const refined = settings.refine > 0 ? refineForeground(image, foreground, settings.refine) : foreground;
+  const hard = regionToCanvas(refined, width, height);
+  const mask = settings.feather > 0 ? featherSelection(hard, settings.feather) : hard;
+  if (settings.decontaminate <= 0) return { mask, pixels: null };
+
+  const alpha = mask.getContext('2d')!.getImageData(0, 0, width, height).data;
+  const bg = backgroundColor(image, foreground);
+  const amount = settings.decontaminate / 100;
+  const pixels = new ImageData(new Uint8ClampedArray(image.data), width, height);
+  const out = pixels.data;
+  for (let p = 0; p < refined.length; p++) {
+    const a = alpha[p * 4 + 3] / 255;
+    if (a <= 0 || a >= 1) continue;
+    for (let c = 0; c < 3; c++) {
+      const i = p * 4 + c;
+      // Observed = a * subject + (1 - a) * background, solved for the subject color
+      const pure = (out[i] - (1 - a) * bg[c]) / a;
+      out[i] = out[i] + (Math.min(255, Math.max(0, pure)) - out[i]) * amount;
+    }
+  }
+  return { mask, pixels };
+};
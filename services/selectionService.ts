@@ -0,0 +1,167 @@
+// Selections are canvas-sized canvases whose alpha is the selection strength, like layer masks.
+
+export type SelectionMode = 'replace' | 'add' | 'subtract';
+
+const createCanvas = (width: number, height: number) => {
+  const c = document.createElement('canvas');
+  c.width = width;
+  c.height = height;
+  return c;
+};
+
+export const selectAll = (width: number, height: number): HTMLCanvasElement => {
+  const c = createCanvas(width, height);
+  const ctx = c.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, width, height);
+  return c;
+};
+
+export const rectSelection = (width: number, height: number, x: number, y: number, w: number, h: number): HTMLCanvasElement => {
+  const c = createCanvas(width, height);
+  const ctx = c.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(Math.round(Math.min(x, x + w)), Math.round(Math.min(y, y + h)), Math.round(Math.abs(w)), Math.round(Math.abs(h)));
+  return c;
+};
+
+export const polygonSelection = (width: number, height: number, points: { x: number, y: number }[]): HTMLCanvasElement => {
+  const c = createCanvas(width, height);
+  const ctx = c.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.beginPath();
+  points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+  ctx.closePath();
+  ctx.fill();
+  return c;
+};
+
+/**
+ * Pixels similar to the one at (x, y): the connected region when `contiguous`, otherwise every
+ * match in the image. `tolerance` is the largest per-channel difference (0-255), alpha included.
+ * Returns one byte per pixel, 255 where selected.
+ */
+export const floodRegion = (image: ImageData, x: number, y: number, tolerance: number, contiguous: boolean): Uint8Array => {
+  const { width, height, data } = image;
+  const region = new Uint8Array(width * height);
+  const sx = Math.floor(x), sy = Math.floor(y);
+  if (sx < 0 || sy < 0 || sx >= width || sy >= height) return region;
+  const start = (sy * width + sx) * 4;
+  const r = data[start], g = data[start + 1], b = data[start + 2], a = data[start + 3];
+  const matches = (p: number) => {
+    const i = p * 4;
+    return Math.abs(data[i] - r) <= tolerance && Math.abs(data[i + 1] - g) <= tolerance &&
+      Math.abs(data[i + 2] - b) <= tolerance && Math.abs(data[i + 3] - a) <= tolerance;
+  };
+
+  if (!contiguous) {
+    for (let p = 0; p < region.length; p++) if (matches(p)) region[p] = 255;
+    return region;
+  }
+
+  // Scanline fill: fill a horizontal run, then queue the rows above and below it.
+  const stack = [sy * width + sx];
+  while (stack.length) {
+    const p = stack.pop()!;
+    if (region[p] || !matches(p)) continue;
+    const row = Math.floor(p / width) * width;
+    let left = p, right = p;
+    while (left > row && !region[left - 1] && matches(left - 1)) left--;
+    while (right < row + width - 1 && !region[right + 1] && matches(right + 1)) right++;
+    for (let q = left; q <= right; q++) {
+      region[q] = 255;
+      if (q >= width && !region[q - width]) stack.push(q - width);
+      if (q < region.length - width && !region[q + width]) stack.push(q + width);
+    }
+  }
+  return region;
+};
+
+export const regionToCanvas = (region: Uint8Array, width: number, height: number): HTMLCanvasElement => {
+  const c = createCanvas(width, height);
+  const ctx = c.getContext('2d')!;
+  const img = ctx.createImageData(width, height);
+  for (let p = 0; p < region.length; p++) {
+    const i = p * 4;
+    img.data[i] = img.data[i + 1] = img.data[i + 2] = 255;
+    img.data[i + 3] = region[p];
+  }
+  ctx.putImageData(img, 0, 0);
+  return c;
+};
+
+/**
+ * Merge a new shape into the current selection. Returns null when nothing is left selected.
+ */
+export const combineSelection = (current: HTMLCanvasElement | null, shape: HTMLCanvasElement, mode: SelectionMode): HTMLCanvasElement | null => {
+  if (mode === 'replace' || !current) return mode === 'subtract' || isSelectionEmpty(shape) ? null : shape;
+  const c = createCanvas(current.width, current.height);
+  const ctx = c.getContext('2d')!;
+  ctx.drawImage(current, 0, 0);
+  ctx.globalCompositeOperation = mode === 'add' ? 'source-over' : 'destination-out';
+  ctx.drawImage(shape, 0, 0);
+  return isSelectionEmpty(c) ? null : c;
+};
+
+export const invertSelection = (selection: HTMLCanvasElement): HTMLCanvasElement => {
+  const c = selectAll(selection.width, selection.height);
+  const ctx = c.getContext('2d')!;
+  ctx.globalCompositeOperation = 'destination-out';
+  ctx.drawImage(selection, 0, 0);
+  return c;
+};
+
+export const featherSelection = (selection: HTMLCanvasElement, radius: number): HTMLCanvasElement => {
+  const c = createCanvas(selection.width, selection.height);
+  const ctx = c.getContext('2d')!;
+  ctx.filter = `blur(${radius}px)`;
+  ctx.drawImage(selection, 0, 0);
+  return c;
+};
+
+export const isSelectionEmpty = (selection: HTMLCanvasElement): boolean => {
+  const data = selection.getContext('2d')!.getImageData(0, 0, selection.width, selection.height).data;
+  for (let i = 3; i < data.length; i += 4) if (data[i] > 0) return false;
+  return true;
+};
+
+/**
+ * Outline of the selection, `thickness` pixels wide, as an opaque-where-edge canvas for the
+ * marching ants overlay. The edge is where selection strength crosses one half.
+ */
+export const selectionEdges = (selection: HTMLCanvasElement, thickness = 1): HTMLCanvasElement => {
+  const { width, height } = selection;
+  const src = selection.getContext('2d')!.getImageData(0, 0, width, height).data;
+  const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && src[(y * width + x) * 4 + 3] >= 128;
+  const c = createCanvas(width, height);
+  const ctx = c.getContext('2d')!;
+  const out = ctx.createImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!inside(x, y)) continue;
+      if (!inside(x - 1, y) || !inside(x + 1, y) || !inside(x, y - 1) || !inside(x, y + 1)) {
+        for (let dy = 0; dy < thickness; dy++) {
+          for (let dx = 0; dx < thickness; dx++) {
+            const ex = x - dx, ey = y - dy;
+            if (ex < 0 || ey < 0) continue;
+            out.data[(ey * width + ex) * 4 + 3] = 255;
+          }
+        }
+      }
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  return c;
+};
+
+/**
+ * Copy of `source` cut down to the selection.
+ */
+export const clipToSelection = (source: HTMLCanvasElement, selection: HTMLCanvasElement): HTMLCanvasElement => {
+  const c = createCanvas(source.width, source.height);
+  const ctx = c.getContext('2d')!;
+  ctx.drawImage(source, 0, 0);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(selection, 0, 0);
+  return c;
+};
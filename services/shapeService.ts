@@ -0,0 +1,210 @@
+import { ShapeContent, ShapeType, SymmetryMode } from "../types";
+import { fromDOMMatrix, isConformal, toDOMMatrix, untransformPoint } from "./transformService";
+
+export const SHAPE_LABELS: Record<ShapeType, string> = {
+  rectangle: 'Rectangle',
+  ellipse: 'Ellipse',
+  line: 'Line',
+  arrow: 'Arrow',
+  polygon: 'Polygon',
+};
+
+export const isLinearShape = (type: ShapeType) => type === 'line' || type === 'arrow';
+
+export const createDefaultShape = (
+  type: ShapeType, x: number, y: number, color: string, strokeWidth: number, symmetry: SymmetryMode, radialCount: number,
+  symmetryCenter: { x: number, y: number }
+): ShapeContent => ({
+  type,
+  x,
+  y,
+  width: 0,
+  height: 0,
+  fill: null,
+  stroke: color,
+  strokeWidth,
+  cornerRadius: 0,
+  sides: 6,
+  arrowStart: false,
+  arrowEnd: type === 'arrow',
+  symmetry,
+  radialCount,
+  symmetryCenter,
+});
+
+// Box with positive size, whatever direction the shape was dragged in
+export const shapeBounds = (s: ShapeContent) => ({
+  x: Math.min(s.x, s.x + s.width),
+  y: Math.min(s.y, s.y + s.height),
+  width: Math.abs(s.width),
+  height: Math.abs(s.height),
+});
+
+const arrowHead = (ctx: CanvasRenderingContext2D, tipX: number, tipY: number, angle: number, size: number) => {
+  ctx.beginPath();
+  ctx.moveTo(tipX, tipY);
+  ctx.lineTo(tipX - size * Math.cos(angle - Math.PI / 7), tipY - size * Math.sin(angle - Math.PI / 7));
+  ctx.lineTo(tipX - size * Math.cos(angle + Math.PI / 7), tipY - size * Math.sin(angle + Math.PI / 7));
+  ctx.closePath();
+  ctx.fill();
+};
+
+const drawLinear = (ctx: CanvasRenderingContext2D, s: ShapeContent) => {
+  if (!s.stroke || s.strokeWidth <= 0) return;
+  const angle = Math.atan2(s.height, s.width);
+  const length = Math.hypot(s.width, s.height);
+  const head = Math.min(length, Math.max(10, s.strokeWidth * 4));
+  // Stop the line inside the heads so its square end doesn't poke past the tip
+  const inset = (arrow: boolean) => arrow ? head * 0.8 : 0;
+  const x1 = s.x + Math.cos(angle) * inset(s.arrowStart), y1 = s.y + Math.sin(angle) * inset(s.arrowStart);
+  const x2 = s.x + s.width - Math.cos(angle) * inset(s.arrowEnd), y2 = s.y + s.height - Math.sin(angle) * inset(s.arrowEnd);
+  ctx.strokeStyle = s.stroke;
+  ctx.fillStyle = s.stroke;
+  ctx.lineWidth = s.strokeWidth;
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(x1, y1);
+  ctx.lineTo(x2, y2);
+  ctx.stroke();
+  if (s.arrowEnd) arrowHead(ctx, s.x + s.width, s.y + s.height, angle, head);
+  if (s.arrowStart) arrowHead(ctx, s.x, s.y, angle + Math.PI, head);
+};
+
+const traceClosed = (ctx: CanvasRenderingContext2D, s: ShapeContent) => {
+  const { x, y, width, height } = shapeBounds(s);
+  ctx.beginPath();
+  if (s.type === 'ellipse') {
+    ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+  } else if (s.type === 'polygon') {
+    const sides = Math.max(3, Math.round(s.sides));
+    for (let i = 0; i < sides; i++) {
+      const a = -Math.PI / 2 + i * 2 * Math.PI / sides;
+      const px = x + width / 2 + Math.cos(a) * width / 2, py = y + height / 2 + Math.sin(a) * height / 2;
+      if (i === 0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
+    }
+    ctx.closePath();
+  } else {
+    const r = Math.max(0, Math.min(s.cornerRadius, width / 2, height / 2));
+    ctx.moveTo(x + r, y);
+    ctx.arcTo(x + width, y, x + width, y + height, r);
+    ctx.arcTo(x + width, y + height, x, y + height, r);
+    ctx.arcTo(x, y + height, x, y, r);
+    ctx.arcTo(x, y, x + width, y, r);
+    ctx.closePath();
+  }
+};
+
+const drawOnce = (ctx: CanvasRenderingContext2D, s: ShapeContent) => {
+  if (isLinearShape(s.type)) { drawLinear(ctx, s); return; }
+  traceClosed(ctx, s);
+  if (s.fill) { ctx.fillStyle = s.fill; ctx.fill(); }
+  if (s.stroke && s.strokeWidth > 0) {
+    ctx.strokeStyle = s.stroke;
+    ctx.lineWidth = s.strokeWidth;
+    ctx.lineJoin = s.cornerRadius > 0 ? 'round' : 'miter';
+    ctx.stroke();
+  }
+};
+
+/**
+ * Draw the shape and its symmetry copies, mirrored or rotated around its symmetry center
+ * the same way brush strokes are around the canvas center.
+ */
+export const renderShape = (ctx: CanvasRenderingContext2D, s: ShapeContent) => {
+  const { x: cx, y: cy } = s.symmetryCenter;
+  ctx.save();
+  if (s.matrix) ctx.transform(...s.matrix);
+  const copy = (transform: () => void) => {
+    ctx.save();
+    transform();
+    drawOnce(ctx, s);
+    ctx.restore();
+  };
+  copy(() => {});
+  if (s.symmetry === 'vertical') {
+    copy(() => { ctx.translate(cx * 2, 0); ctx.scale(-1, 1); });
+  } else if (s.symmetry === 'horizontal') {
+    copy(() => { ctx.translate(0, cy * 2); ctx.scale(1, -1); });
+  } else if (s.symmetry === 'radial') {
+    for (let i = 1; i < s.radialCount; i++) {
+      copy(() => { ctx.translate(cx, cy); ctx.rotate(i * 2 * Math.PI / s.radialCount); ctx.translate(-cx, -cy); });
+    }
+  }
+  ctx.restore();
+};
+
+/**
+ * Whether (px, py) is on the original shape (not a symmetry copy), with a few pixels of slack
+ * so thin lines can be picked.
+ */
+export const hitTestShape = (s: ShapeContent, x: number, y: number): boolean => {
+  const { x: px, y: py } = untransformPoint(s.matrix, x, y);
+  const slack = Math.max(6, s.strokeWidth / 2);
+  if (isLinearShape(s.type)) {
+    const len2 = s.width * s.width + s.height * s.height;
+    const t = len2 ? Math.max(0, Math.min(1, ((px - s.x) * s.width + (py - s.y) * s.height) / len2)) : 0;
+    return Math.hypot(px - (s.x + t * s.width), py - (s.y + t * s.height)) <= slack;
+  }
+  const b = shapeBounds(s);
+  return px >= b.x - slack && px <= b.x + b.width + slack && py >= b.y - slack && py <= b.y + b.height + slack;
+};
+
+/**
+ * Reposition a shape when the canvas geometry changes by `m`. While the result is still a plain
+ * box (or line) both ends of it go through `m` and stroke and corners are scaled. Anything else,
+ * such as a rotated rectangle or a stretched stroke, is kept as the shape's matrix so it renders
+ * exactly like the transformed pixels.
+ */
+export const transformShape = (s: ShapeContent, m: DOMMatrix): ShapeContent => {
+  // Boxes only survive axis-aligned changes; a polygon's top corner doesn't survive a vertical flip
+  const keepsBox = Math.abs(m.b) < 1e-9 && Math.abs(m.c) < 1e-9 && (s.type !== 'polygon' || m.d > 0);
+  if (s.matrix || s.symmetry !== 'none' || !isConformal(m) || !(isLinearShape(s.type) || keepsBox)) {
+    return { ...s, matrix: fromDOMMatrix(m.multiply(toDOMMatrix(s.matrix))) };
+  }
+  const scale = Math.sqrt(Math.abs(m.a * m.d - m.b * m.c));
+  const a = m.transformPoint(new DOMPoint(s.x, s.y));
+  const b = m.transformPoint(new DOMPoint(s.x + s.width, s.y + s.height));
+  const center = m.transformPoint(new DOMPoint(s.symmetryCenter.x, s.symmetryCenter.y));
+  return {
+    ...s, x: a.x, y: a.y, width: b.x - a.x, height: b.y - a.y, strokeWidth: s.strokeWidth * scale, cornerRadius: s.cornerRadius * scale,
+    symmetryCenter: { x: center.x, y: center.y },
+  };
+};
+
+/**
+ * Shape while it is being dragged out from (x, y) to (px, py). With `constrain`, boxes become
+ * squares and lines snap to 45 degree steps.
+ */
+export const dragOutShape = (s: ShapeContent, px: number, py: number, constrain: boolean): ShapeContent => {
+  let width = px - s.x, height = py - s.y;
+  if (constrain && isLinearShape(s.type)) {
+    const step = Math.PI / 4;
+    const angle = Math.round(Math.atan2(height, width) / step) * step;
+    const length = Math.hypot(width, height);
+    width = Math.cos(angle) * length; height = Math.sin(angle) * length;
+  } else if (constrain) {
+    const size = Math.max(Math.abs(width), Math.abs(height));
+    width = Math.sign(width || 1) * size; height = Math.sign(height || 1) * size;
+  }
+  return { ...s, width, height };
+};
+
+/**
+ * Move the box edges named by `handle` (any of n, e, s, w) to the pointer. The shape keeps the
+ * direction it was drawn in, so arrows don't flip.
+ */
+export const resizeShape = (s: ShapeContent, handle: string, px: number, py: number): ShapeContent => {
+  const b = shapeBounds(s);
+  let left = b.x, top = b.y, right = b.x + b.width, bottom = b.y + b.height;
+  if (handle.includes('w')) left = Math.min(px, right - 1);
+  if (handle.includes('e')) right = Math.max(px, left + 1);
+  if (handle.includes('n')) top = Math.min(py, bottom - 1);
+  if (handle.includes('s')) bottom = Math.max(py, top + 1);
+  return {
+    ...s,
+    x: s.width >= 0 ? left : right,
+    y: s.height >= 0 ? top : bottom,
+    width: s.width >= 0 ? right - left : left - right,
+    height: s.height >= 0 ? bottom - top : top - bottom,
+  };
+};
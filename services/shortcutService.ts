@@ -0,0 +1,140 @@
+export type ShortcutGroup = 'General' | 'Tools' | 'Selection' | 'Brush' | 'View' | 'Layers';
+
+export interface ShortcutCommand {
+  id: string;
+  label: string;
+  group: ShortcutGroup;
+  defaultKeys: string[];
+  // Fires again while the key is held down
+  repeat?: boolean;
+  // Active only while the key is held; the handler is told when it's released
+  hold?: boolean;
+  // Works outside the editor too
+  global?: boolean;
+}
+
+// Command id -> key combos, e.g. { undo: ['Ctrl+Z'] }
+export type Keymap = Record<string, string[]>;
+
+export const SHORTCUT_COMMANDS: ShortcutCommand[] = [
+  { id: 'undo', label: 'Undo', group: 'General', defaultKeys: ['Ctrl+Z'], repeat: true },
+  { id: 'redo', label: 'Redo', group: 'General', defaultKeys: ['Ctrl+Shift+Z', 'Ctrl+Y'], repeat: true },
+  { id: 'save', label: 'Save Project', group: 'General', defaultKeys: ['Ctrl+S'] },
+  { id: 'cancel', label: 'Cancel / Close', group: 'General', defaultKeys: ['Escape'], global: true },
+  { id: 'shortcuts', label: 'Keyboard Shortcuts', group: 'General', defaultKeys: ['Shift+/'], global: true },
+  { id: 'tool.pen', label: 'Pen', group: 'Tools', defaultKeys: ['B'] },
+  { id: 'tool.eraser', label: 'Eraser', group: 'Tools', defaultKeys: ['E'] },
+  { id: 'tool.marker', label: 'Marker', group: 'Tools', defaultKeys: ['M'] },
+  { id: 'tool.spray', label: 'Spray', group: 'Tools', defaultKeys: ['S'] },
+  { id: 'tool.clone', label: 'Clone Stamp', group: 'Tools', defaultKeys: ['Shift+S'] },
+  { id: 'tool.pan', label: 'Pan', group: 'Tools', defaultKeys: ['H'] },
+  { id: 'tool.panHold', label: 'Pan While Held', group: 'Tools', defaultKeys: ['Space'], hold: true },
+  { id: 'tool.marquee', label: 'Marquee Select', group: 'Tools', defaultKeys: ['Shift+M'] },
+  { id: 'tool.lasso', label: 'Lasso Select', group: 'Tools', defaultKeys: ['Shift+L'] },
+  { id: 'tool.wand', label: 'Magic Wand', group: 'Tools', defaultKeys: ['W'] },
+  { id: 'tool.text', label: 'Text', group: 'Tools', defaultKeys: ['T'] },
+  { id: 'tool.shape', label: 'Shapes', group: 'Tools', defaultKeys: ['U'] },
+  { id: 'tool.bucket', label: 'Paint Bucket', group: 'Tools', defaultKeys: ['G'] },
+  { id: 'tool.gradient', label: 'Gradient', group: 'Tools', defaultKeys: ['Shift+G'] },
+  { id: 'tool.crop', label: 'Crop', group: 'Tools', defaultKeys: ['C'] },
+  { id: 'tool.inpaint', label: 'Inpaint Mask', group: 'Tools', defaultKeys: ['I'] },
+  { id: 'select.all', label: 'Select All', group: 'Selection', defaultKeys: ['Ctrl+A'] },
+  { id: 'select.none', label: 'Deselect', group: 'Selection', defaultKeys: ['Ctrl+D'] },
+  { id: 'select.invert', label: 'Invert Selection', group: 'Selection', defaultKeys: ['Ctrl+Shift+I'] },
+  { id: 'select.feather', label: 'Feather Selection', group: 'Selection', defaultKeys: ['Shift+F'] },
+  { id: 'edit.copy', label: 'Copy', group: 'Selection', defaultKeys: ['Ctrl+C'] },
+  { id: 'edit.cut', label: 'Cut', group: 'Selection', defaultKeys: ['Ctrl+X'] },
+  { id: 'edit.paste', label: 'Paste as Layer', group: 'Selection', defaultKeys: ['Ctrl+V'] },
+  { id: 'edit.clear', label: 'Clear', group: 'Selection', defaultKeys: ['Delete', 'Backspace'] },
+  { id: 'edit.fill', label: 'Fill with Brush Color', group: 'Selection', defaultKeys: ['Alt+Backspace'] },
+  { id: 'brush.smaller', label: 'Smaller Brush', group: 'Brush', defaultKeys: ['['], repeat: true },
+  { id: 'brush.larger', label: 'Larger Brush', group: 'Brush', defaultKeys: [']'], repeat: true },
+  { id: 'brush.settings', label: 'Brush Settings', group: 'Brush', defaultKeys: ['Shift+B'] },
+  { id: 'view.zoomIn', label: 'Zoom In', group: 'View', defaultKeys: ['=', 'Ctrl+='], repeat: true },
+  { id: 'view.zoomOut', label: 'Zoom Out', group: 'View', defaultKeys: ['-', 'Ctrl+-'], repeat: true },
+  { id: 'view.fit', label: 'Fit View', group: 'View', defaultKeys: ['0', 'Ctrl+0'] },
+  { id: 'layer.new', label: 'New Layer', group: 'Layers', defaultKeys: ['Ctrl+Shift+N'] },
+  { id: 'layer.viaCopy', label: 'Layer via Copy', group: 'Layers', defaultKeys: ['Ctrl+J'] },
+  { id: 'layer.duplicate', label: 'Duplicate Layer', group: 'Layers', defaultKeys: ['Ctrl+Alt+J'] },
+  { id: 'layer.group', label: 'Group Layer', group: 'Layers', defaultKeys: ['Ctrl+G'] },
+  { id: 'layer.ungroup', label: 'Ungroup', group: 'Layers', defaultKeys: ['Ctrl+Shift+G'] },
+  { id: 'layer.mergeDown', label: 'Merge Down', group: 'Layers', defaultKeys: ['Ctrl+E'] },
+  { id: 'layer.mergeVisible', label: 'Merge Visible', group: 'Layers', defaultKeys: ['Ctrl+Shift+E'] },
+  { id: 'layer.transform', label: 'Free Transform', group: 'Layers', defaultKeys: ['Ctrl+T'] },
+  { id: 'layer.applyTransform', label: 'Apply Transform', group: 'Layers', defaultKeys: ['Enter'] },
+  { id: 'layer.above', label: 'Select Layer Above', group: 'Layers', defaultKeys: ['Alt+]'], repeat: true },
+  { id: 'layer.below', label: 'Select Layer Below', group: 'Layers', defaultKeys: ['Alt+['], repeat: true },
+  { id: 'layer.panel', label: 'Layers Panel', group: 'Layers', defaultKeys: ['L'] },
+];
+
+const KEYMAP_STORAGE_KEY = 'magicLens_keymap';
+
+const CODE_KEYS: Record<string, string> = {
+  BracketLeft: '[', BracketRight: ']', Minus: '-', Equal: '=', Slash: '/', Backslash: '\\',
+  Comma: ',', Period: '.', Semicolon: ';', Quote: "'", Backquote: '`', Space: 'Space',
+};
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+/**
+ * Normalize a key event to a combo like "Ctrl+Shift+Z". Cmd counts as Ctrl. Letters follow the
+ * keyboard layout; punctuation uses the physical key so Shift and Alt don't change it.
+ * Returns null for a bare modifier press.
+ */
+export const eventToCombo = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  let key: string;
+  if (/^[a-z0-9]$/i.test(e.key)) key = e.key.toUpperCase();
+  else if (CODE_KEYS[e.code]) key = CODE_KEYS[e.code];
+  else if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3);
+  else if (/^Digit[0-9]$/.test(e.code)) key = e.code.slice(5);
+  else key = e.key;
+  const mods = [(e.ctrlKey || e.metaKey) && 'Ctrl', e.altKey && 'Alt', e.shiftKey && 'Shift'].filter(Boolean);
+  return [...mods, key].join('+');
+};
+
+// The key part of a combo, used to match the release of a held shortcut
+export const comboKey = (combo: string) => combo.split('+').pop() || combo;
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const formatCombo = (combo: string) => isMac ? combo.replace('Ctrl+', '⌘').replace('Alt+', '⌥').replace('Shift+', '⇧') : combo;
+
+export const defaultKeymap = (): Keymap =>
+  Object.fromEntries(SHORTCUT_COMMANDS.map(c => [c.id, [...c.defaultKeys]]));
+
+/**
+ * Defaults with the user's stored overrides applied. Only overridden commands are stored, so
+ * commands added later pick up their defaults.
+ */
+export const loadKeymap = (): Keymap => {
+  const keymap = defaultKeymap();
+  try {
+    const stored = JSON.parse(localStorage.getItem(KEYMAP_STORAGE_KEY) || '{}');
+    for (const [id, keys] of Object.entries(stored)) {
+      if (id in keymap && Array.isArray(keys)) keymap[id] = keys.filter((k): k is string => typeof k === 'string');
+    }
+  } catch {
+    // Corrupt overrides fall back to the defaults
+  }
+  return keymap;
+};
+
+export const storeKeymap = (keymap: Keymap) => {
+  const defaults = defaultKeymap();
+  const overrides = Object.fromEntries(Object.entries(keymap).filter(([id, keys]) => keys.join() !== defaults[id]?.join()));
+  localStorage.setItem(KEYMAP_STORAGE_KEY, JSON.stringify(overrides));
+};
+
+/**
+ * Bind `combo` to `commandId` alone, taking it away from any command that had it.
+ */
+export const rebindCommand = (keymap: Keymap, commandId: string, combo: string): Keymap => {
+  const next: Keymap = {};
+  for (const [id, keys] of Object.entries(keymap)) next[id] = keys.filter(k => k !== combo);
+  next[commandId] = [combo];
+  return next;
+};
+
+export const findCommand = (keymap: Keymap, combo: string): ShortcutCommand | undefined =>
+  SHORTCUT_COMMANDS.find(c => keymap[c.id]?.includes(combo));
@@ -1,69 +1,452 @@
-import { HistoryItem } from "../types";
+import { GalleryCollection, GalleryCursor, GalleryFilter, GalleryPage, HistoryItem, NewHistoryItem, ProjectRecord } from "../types";
 
 const DB_NAME = 'MagicLensDB';
 const STORE_NAME = 'history';
-const VERSION = 1;
+const PROJECT_STORE_NAME = 'projects';
+const COLLECTION_STORE_NAME = 'collections';
+const VERSION = 6;
 
-export const initDB = (): Promise<void> => {
+export const GALLERY_PAGE_SIZE = 48;
+const THUMBNAIL_SIZE = 320;
+
+// Records written before v5 kept the image inline as a data URL.
+type StoredItem = HistoryItem & { src?: string; pendingMigration?: 1 };
+
+const tokenize = (text: string): string[] =>
+  Array.from(new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)));
+
+const withKeywords = <T extends HistoryItem>(item: T): T => ({ ...item, keywords: tokenize(item.prompt) });
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mime = header.match(/data:([^;]+)/)?.[1] ?? 'image/png';
+  const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+  return new Blob([bytes], { type: mime });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// SHA-256 of the image bytes, hex encoded. Undefined where there is no Web Crypto (pages not
+// served over https), in which case duplicates simply aren't detected.
+export const hashBlob = async (blob: Blob): Promise<string | undefined> => {
+  if (!globalThis.crypto?.subtle) return undefined;
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// WebP keeps transparency; browsers that can't encode it fall back to PNG.
+const createThumbnail = async (image: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return new Promise((resolve, reject) => canvas.toBlob(b => b ? resolve(b) : reject(new Error('Thumbnail encoding failed')), 'image/webp', 0.8));
+};
+
+// Legacy records not migrated yet are readable straight away; their thumbnail is the full image.
+const fromStored = (record: StoredItem): HistoryItem => {
+  if (record.image || !record.src) return record;
+  const { src, pendingMigration, ...rest } = record;
+  const image = dataUrlToBlob(src);
+  return { ...rest, image, thumbnail: image };
+};
+
+const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, VERSION);
+    // Migrations run in order from the version the browser has stored.
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
+      const db = request.result;
+      const tx = request.transaction!;
+      if (event.oldVersion < 1) {
         db.createObjectStore(STORE_NAME, { keyPath: 'id' });
       }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(PROJECT_STORE_NAME, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 3) {
+        // v3: provenance. Edits link to their source through parentId.
+        tx.objectStore(STORE_NAME).createIndex('parentId', 'parentId');
+      }
+      if (event.oldVersion < 4) {
+        // v4: gallery browsing. One index per filter, plus prompt keywords backfilled on existing records.
+        const store = tx.objectStore(STORE_NAME);
+        store.createIndex('timestamp', 'timestamp');
+        store.createIndex('type', ['type', 'timestamp']);
+        store.createIndex('providerId', 'params.providerId');
+        store.createIndex('aspectRatio', 'params.aspectRatio');
+        store.createIndex('favoritedAt', 'favoritedAt');
+        store.createIndex('tags', 'tags', { multiEntry: true });
+        store.createIndex('collectionIds', 'collectionIds', { multiEntry: true });
+        store.createIndex('keywords', 'keywords', { multiEntry: true });
+        db.createObjectStore(COLLECTION_STORE_NAME, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 5) {
+        // v5: images move from inline data URLs to Blobs with thumbnails.
+        tx.objectStore(STORE_NAME).createIndex('pendingMigration', 'pendingMigration');
+      }
+      if (event.oldVersion < 6) {
+        // v6: content hashes for duplicate detection on import.
+        tx.objectStore(STORE_NAME).createIndex('hash', 'hash');
+      }
+      if (event.oldVersion >= 1 && event.oldVersion < 6) {
+        // Blobs, thumbnails and hashes need async work, which can't happen inside the upgrade,
+        // so existing records are only flagged here and finished by migrateLegacyItems.
+        const cursorReq = tx.objectStore(STORE_NAME).openCursor();
+        cursorReq.onsuccess = () => {
+          const cursor = cursorReq.result;
+          if (!cursor) return;
+          cursor.update({ ...withKeywords(cursor.value as StoredItem), pendingMigration: 1 });
+          cursor.continue();
+        };
+      }
     };
-    request.onsuccess = () => resolve();
+    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 };
 
-export const saveItem = (item: HistoryItem): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, VERSION);
-    request.onsuccess = () => {
-      const db = request.result;
+/**
+ * Finish flagged records one at a time: Blob and thumbnail for pre-v5 data URLs, then the
+ * content hash. Safe to interrupt: whatever is left stays flagged and readable through
+ * fromStored, and is picked up on the next start.
+ */
+const migrateLegacyItems = async (db: IDBDatabase): Promise<void> => {
+  const ids = await new Promise<IDBValidKey[]>((resolve, reject) => {
+    const keys = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('pendingMigration').getAllKeys();
+    keys.onsuccess = () => resolve(keys.result);
+    keys.onerror = () => reject(keys.error);
+  });
+  for (const id of ids) {
+    const record = await new Promise<StoredItem | undefined>((resolve, reject) => {
+      const get = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(id);
+      get.onsuccess = () => resolve(get.result);
+      get.onerror = () => reject(get.error);
+    });
+    if (!record) continue;
+    const { pendingMigration, ...item } = fromStored(record) as StoredItem;
+    if (typeof record.src === 'string') {
+      try {
+        item.thumbnail = await createThumbnail(item.image);
+      } catch (e) {
+        console.warn(`Could not create a thumbnail for ${item.id}`, e);
+      }
+    }
+    item.hash ??= await hashBlob(item.image);
+    await new Promise<void>((resolve, reject) => {
       const tx = db.transaction(STORE_NAME, 'readwrite');
-      const store = tx.objectStore(STORE_NAME);
-      store.put(item);
+      tx.objectStore(STORE_NAME).put(item);
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
+    });
+  }
+};
+
+export const initDB = async (): Promise<void> => {
+  const db = await openDB();
+  await migrateLegacyItems(db);
+};
+
+export const saveItem = ({ src, ...item }: NewHistoryItem): Promise<void> => {
+  return saveImageItem({ ...item, image: dataUrlToBlob(src) });
+};
+
+/**
+ * Store an item whose image is already a Blob, e.g. from an imported archive.
+ */
+export const saveImageItem = async (item: Omit<HistoryItem, 'thumbnail' | 'keywords' | 'hash'>): Promise<void> => {
+  const [thumbnail, hash] = await Promise.all([createThumbnail(item.image), hashBlob(item.image)]);
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    store.put(withKeywords({ ...item, thumbnail, hash }));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const matchesFilter = (item: HistoryItem, filter: GalleryFilter, terms: string[]): boolean => {
+  // Editor snapshots are bookkeeping for lineage and only show up when asked for by type.
+  if (filter.type ? item.type !== filter.type : item.type === 'source') return false;
+  if (filter.providerId && item.params?.providerId !== filter.providerId) return false;
+  if (filter.aspectRatio && item.params?.aspectRatio !== filter.aspectRatio) return false;
+  if (filter.from !== undefined && item.timestamp < filter.from) return false;
+  if (filter.to !== undefined && item.timestamp > filter.to) return false;
+  if (filter.tag && !item.tags?.includes(filter.tag)) return false;
+  if (filter.favorites && item.favoritedAt === undefined) return false;
+  if (filter.collectionId && !item.collectionIds?.includes(filter.collectionId)) return false;
+  const keywords = item.keywords ?? tokenize(item.prompt);
+  return terms.every(t => keywords.some(k => k.startsWith(t)));
+};
+
+// Newest first, ties broken by id so the order is total and can be resumed from a cursor.
+const compareNewest = (a: GalleryCursor, b: GalleryCursor) => b.timestamp - a.timestamp || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+/**
+ * One page of gallery items matching `filter`, newest first, starting after `after`.
+ * The most selective index drives a cursor and the remaining criteria are checked per record.
+ * Records hold Blobs, so scanning them doesn't read image data.
+ */
+export const queryItems = async (filter: GalleryFilter = {}, after: GalleryCursor | null = null, limit = GALLERY_PAGE_SIZE): Promise<GalleryPage> => {
+  const db = await openDB();
+  const terms = tokenize(filter.search ?? '');
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const store = tx.objectStore(STORE_NAME);
+    const from = filter.from ?? -Infinity;
+    const to = Math.min(filter.to ?? Infinity, after?.timestamp ?? Infinity);
+    let source: IDBIndex;
+    let range: IDBKeyRange;
+    // Cursors over the timestamp-ordered indexes already yield newest first and can stop after
+    // one page; the others are collected, sorted and sliced.
+    let ordered = false;
+    if (filter.collectionId) { source = store.index('collectionIds'); range = IDBKeyRange.only(filter.collectionId); }
+    else if (filter.tag) { source = store.index('tags'); range = IDBKeyRange.only(filter.tag); }
+    else if (filter.favorites) { source = store.index('favoritedAt'); range = IDBKeyRange.lowerBound(-Infinity); }
+    else if (terms.length > 0) { source = store.index('keywords'); range = IDBKeyRange.bound(terms[0], terms[0] + '\uffff'); }
+    else if (filter.type) { source = store.index('type'); range = IDBKeyRange.bound([filter.type, from], [filter.type, to]); ordered = true; }
+    else if (filter.providerId) { source = store.index('providerId'); range = IDBKeyRange.only(filter.providerId); }
+    else if (filter.aspectRatio) { source = store.index('aspectRatio'); range = IDBKeyRange.only(filter.aspectRatio); }
+    else { source = store.index('timestamp'); range = IDBKeyRange.bound(from, to); ordered = true; }
+
+    const items: HistoryItem[] = [];
+    // A keyword prefix can match several words of the same prompt
+    const seen = new Set<string>();
+    const finish = () => {
+      if (!ordered) items.sort(compareNewest);
+      const page = items.slice(0, limit);
+      const last = page[page.length - 1];
+      resolve({ items: page.map(fromStored), next: items.length > limit ? { timestamp: last.timestamp, id: last.id } : null });
     };
-    request.onerror = () => reject(request.error);
+    const cursorReq = source.openCursor(range, 'prev');
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) { finish(); return; }
+      const item = cursor.value as StoredItem;
+      const isNew = !seen.has(item.id);
+      seen.add(item.id);
+      if (isNew && (!after || compareNewest(after, item) < 0) && matchesFilter(item, filter, terms)) {
+        items.push(item);
+        // One extra tells whether another page exists
+        if (ordered && items.length > limit) { finish(); return; }
+      }
+      cursor.continue();
+    };
+    cursorReq.onerror = () => reject(cursorReq.error);
   });
 };
 
-export const getItems = (): Promise<HistoryItem[]> => {
+export const getItem = async (id: string): Promise<HistoryItem | undefined> => {
+  const db = await openDB();
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, VERSION);
-    request.onsuccess = () => {
-      const db = request.result;
-      const tx = db.transaction(STORE_NAME, 'readonly');
-      const store = tx.objectStore(STORE_NAME);
-      const getAll = store.getAll();
-      getAll.onsuccess = () => {
-        const items = getAll.result as HistoryItem[];
-        // Sort by timestamp descending (newest first)
-        items.sort((a, b) => b.timestamp - a.timestamp);
-        resolve(items);
-      };
-      getAll.onerror = () => reject(getAll.error);
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const get = tx.objectStore(STORE_NAME).get(id);
+    get.onsuccess = () => resolve(get.result ? fromStored(get.result) : undefined);
+    get.onerror = () => reject(get.error);
+  });
+};
+
+export const findItemByHash = async (hash: string): Promise<HistoryItem | undefined> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const get = tx.objectStore(STORE_NAME).index('hash').get(hash);
+    get.onsuccess = () => resolve(get.result ? fromStored(get.result) : undefined);
+    get.onerror = () => reject(get.error);
+  });
+};
+
+/**
+ * Every stored item including editor snapshots, oldest first.
+ */
+export const getAllItems = async (): Promise<HistoryItem[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const getAll = tx.objectStore(STORE_NAME).index('timestamp').getAll();
+    getAll.onsuccess = () => resolve((getAll.result as StoredItem[]).map(fromStored));
+    getAll.onerror = () => reject(getAll.error);
+  });
+};
+
+export const getChildItems = async (parentId: string): Promise<HistoryItem[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const getAll = tx.objectStore(STORE_NAME).index('parentId').getAll(parentId);
+    getAll.onsuccess = () => {
+      const items = (getAll.result as StoredItem[]).map(fromStored);
+      items.sort((a, b) => a.timestamp - b.timestamp);
+      resolve(items);
     };
-    request.onerror = () => reject(request.error);
+    getAll.onerror = () => reject(getAll.error);
   });
 };
 
-export const deleteItem = (id: string): Promise<void> => {
-   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, VERSION);
-    request.onsuccess = () => {
-      const db = request.result;
-      const tx = db.transaction(STORE_NAME, 'readwrite');
-      const store = tx.objectStore(STORE_NAME);
-      store.delete(id);
-      tx.oncomplete = () => resolve();
-      tx.onerror = () => reject(tx.error);
+/**
+ * Walk parent links up from `id`. Returns the chain oldest-first, ending with the item itself.
+ */
+export const getLineage = async (id: string): Promise<HistoryItem[]> => {
+  const chain: HistoryItem[] = [];
+  const seen = new Set<string>();
+  let current = await getItem(id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    chain.unshift(current);
+    current = current.parentId ? await getItem(current.parentId) : undefined;
+  }
+  return chain;
+};
+
+/**
+ * Items made from `id`, looking through the 'source' snapshots recorded between an asset and its edits.
+ */
+export const getDerivedItems = async (id: string): Promise<HistoryItem[]> => {
+  const children = await getChildItems(id);
+  const nested = await Promise.all(children.map(c => c.type === 'source' ? getDerivedItems(c.id) : Promise.resolve([c])));
+  return nested.flat();
+};
+
+/**
+ * Merge `patch` into a stored item, e.g. for tags, favorites and collections.
+ */
+export const updateItem = async (id: string, patch: Partial<HistoryItem>): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const get = store.get(id);
+    get.onsuccess = () => {
+      if (get.result) store.put(withKeywords({ ...get.result, ...patch }));
     };
-    request.onerror = () => reject(request.error);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getTags = async (): Promise<string[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const tags: string[] = [];
+    const cursorReq = tx.objectStore(STORE_NAME).index('tags').openKeyCursor(null, 'nextunique');
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) { resolve(tags); return; }
+      tags.push(cursor.key as string);
+      cursor.continue();
+    };
+    cursorReq.onerror = () => reject(cursorReq.error);
+  });
+};
+
+const deleteRecord = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    store.delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+/**
+ * Delete an item. Editor snapshots never show in the gallery, so a 'source' record goes with
+ * the last item that points to it.
+ */
+export const deleteItem = async (id: string): Promise<void> => {
+  const item = await getItem(id);
+  await deleteRecord(id);
+  const parent = item?.parentId ? await getItem(item.parentId) : undefined;
+  if (parent?.type === 'source' && (await getChildItems(parent.id)).length === 0) await deleteItem(parent.id);
+};
+
+export const saveProject = async (record: ProjectRecord): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PROJECT_STORE_NAME, 'readwrite');
+    tx.objectStore(PROJECT_STORE_NAME).put(record);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getProjects = async (): Promise<ProjectRecord[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PROJECT_STORE_NAME, 'readonly');
+    const getAll = tx.objectStore(PROJECT_STORE_NAME).getAll();
+    getAll.onsuccess = () => {
+      const records = getAll.result as ProjectRecord[];
+      // Most recently saved first
+      records.sort((a, b) => b.updatedAt - a.updatedAt);
+      resolve(records);
+    };
+    getAll.onerror = () => reject(getAll.error);
+  });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PROJECT_STORE_NAME, 'readwrite');
+    tx.objectStore(PROJECT_STORE_NAME).delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const saveCollection = async (collection: GalleryCollection): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(COLLECTION_STORE_NAME, 'readwrite');
+    tx.objectStore(COLLECTION_STORE_NAME).put(collection);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getCollections = async (): Promise<GalleryCollection[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(COLLECTION_STORE_NAME, 'readonly');
+    const getAll = tx.objectStore(COLLECTION_STORE_NAME).getAll();
+    getAll.onsuccess = () => {
+      const collections = getAll.result as GalleryCollection[];
+      collections.sort((a, b) => a.name.localeCompare(b.name));
+      resolve(collections);
+    };
+    getAll.onerror = () => reject(getAll.error);
+  });
+};
+
+/**
+ * Delete a collection and drop it from its members. The items themselves are kept.
+ */
+export const deleteCollection = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([COLLECTION_STORE_NAME, STORE_NAME], 'readwrite');
+    tx.objectStore(COLLECTION_STORE_NAME).delete(id);
+    const cursorReq = tx.objectStore(STORE_NAME).index('collectionIds').openCursor(IDBKeyRange.only(id));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) return;
+      const item = cursor.value as HistoryItem;
+      cursor.update({ ...item, collectionIds: item.collectionIds?.filter(c => c !== id) });
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
   });
 };
@@ -0,0 +1,110 @@
+import { TextContent } from "../types";
+import { fromDOMMatrix, isConformal, toDOMMatrix, untransformPoint } from "./transformService";
+
+export const TEXT_FONTS = [
+  'Inter', 'Arial', 'Helvetica', 'Georgia', 'Times New Roman', 'Courier New', 'Impact', 'Comic Sans MS', 'Trebuchet MS', 'Verdana',
+];
+
+export const TEXT_WEIGHTS = [300, 400, 600, 700, 900];
+
+export const createDefaultText = (x: number, y: number, color: string, fontSize: number): TextContent => ({
+  text: 'Text',
+  fontFamily: 'Inter',
+  fontSize,
+  fontWeight: 700,
+  color,
+  align: 'left',
+  x,
+  y,
+  rotation: 0,
+});
+
+const LINE_HEIGHT = 1.2;
+
+const fontString = (t: TextContent) => `${t.fontWeight} ${t.fontSize}px "${t.fontFamily}", sans-serif`;
+
+/**
+ * Draw the text onto `ctx` in canvas pixels. Lines are split on newlines; the stroke goes under
+ * the fill so it doesn't eat into the glyphs, and only the first of the two casts the shadow.
+ */
+export const renderText = (ctx: CanvasRenderingContext2D, t: TextContent) => {
+  const lines = t.text.split('\n');
+  ctx.save();
+  if (t.matrix) ctx.transform(...t.matrix);
+  ctx.translate(t.x, t.y);
+  ctx.rotate(t.rotation * Math.PI / 180);
+  ctx.font = fontString(t);
+  ctx.textAlign = t.align;
+  ctx.textBaseline = 'top';
+  ctx.lineJoin = 'round';
+  if (t.shadow) {
+    ctx.shadowColor = t.shadow.color;
+    ctx.shadowBlur = t.shadow.blur;
+    ctx.shadowOffsetX = t.shadow.offsetX;
+    ctx.shadowOffsetY = t.shadow.offsetY;
+  }
+  const stroked = !!t.stroke && t.stroke.width > 0;
+  lines.forEach((line, i) => {
+    const y = i * t.fontSize * LINE_HEIGHT;
+    if (stroked) {
+      ctx.strokeStyle = t.stroke!.color;
+      ctx.lineWidth = t.stroke!.width * 2;
+      ctx.strokeText(line, 0, y);
+    }
+  });
+  if (stroked) ctx.shadowColor = 'transparent';
+  ctx.fillStyle = t.color;
+  lines.forEach((line, i) => ctx.fillText(line, 0, i * t.fontSize * LINE_HEIGHT));
+  ctx.restore();
+};
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+/**
+ * Unrotated box of the text relative to its anchor, used for hit testing and outlines.
+ */
+export const measureText = (t: TextContent): { x: number; y: number; width: number; height: number } => {
+  measureCtx = measureCtx ?? document.createElement('canvas').getContext('2d');
+  const lines = t.text.split('\n');
+  let width = 0;
+  if (measureCtx) {
+    measureCtx.font = fontString(t);
+    width = Math.max(...lines.map(l => measureCtx!.measureText(l).width));
+  }
+  const pad = t.stroke?.width ?? 0;
+  const x = t.align === 'left' ? 0 : t.align === 'center' ? -width / 2 : -width;
+  return { x: x - pad, y: -pad, width: width + pad * 2, height: lines.length * t.fontSize * LINE_HEIGHT + pad * 2 };
+};
+
+export const hitTestText = (t: TextContent, x: number, y: number): boolean => {
+  // Undo any free transform and the rotation around the anchor, then test against the unrotated box
+  const { x: px, y: py } = untransformPoint(t.matrix, x, y);
+  const a = -t.rotation * Math.PI / 180;
+  const dx = px - t.x, dy = py - t.y;
+  const lx = dx * Math.cos(a) - dy * Math.sin(a);
+  const ly = dx * Math.sin(a) + dy * Math.cos(a);
+  const box = measureText(t);
+  return lx >= box.x && lx <= box.x + box.width && ly >= box.y && ly <= box.y + box.height;
+};
+
+/**
+ * Reposition text when the canvas geometry changes by `m`. Moves, rotation and uniform scaling
+ * go into the anchor, rotation and type size; flips and uneven scaling are kept as the text's
+ * matrix so the glyphs end up exactly as previewed.
+ */
+export const transformText = (t: TextContent, m: DOMMatrix): TextContent => {
+  const flips = m.a * m.d - m.b * m.c < 0;
+  if (t.matrix || flips || !isConformal(m)) return { ...t, matrix: fromDOMMatrix(m.multiply(toDOMMatrix(t.matrix))) };
+  const scale = Math.hypot(m.a, m.b);
+  const rotate = Math.atan2(m.b, m.a) * 180 / Math.PI;
+  const p = m.transformPoint(new DOMPoint(t.x, t.y));
+  return {
+    ...t,
+    x: p.x,
+    y: p.y,
+    fontSize: Math.max(1, t.fontSize * scale),
+    rotation: (t.rotation + rotate) % 360,
+    stroke: t.stroke && { ...t.stroke, width: t.stroke.width * scale },
+    shadow: t.shadow && { ...t.shadow, blur: t.shadow.blur * scale, offsetX: t.shadow.offsetX * scale, offsetY: t.shadow.offsetY * scale },
+  };
+};
@@ -0,0 +1,111 @@
+import { AffineMatrix, LayerTransform, Rect } from "../types";
+
+export const IDENTITY_TRANSFORM: LayerTransform = { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0 };
+
+const SNAP_ANGLE = 15;
+
+/**
+ * Matrix that maps layer pixels to their transformed position, scaling and rotating around `pivot`.
+ */
+export const transformMatrix = (t: LayerTransform, pivot: { x: number; y: number }): DOMMatrix =>
+  new DOMMatrix()
+    .translate(pivot.x + t.x, pivot.y + t.y)
+    .rotate(t.rotation)
+    .scale(t.scaleX, t.scaleY)
+    .translate(-pivot.x, -pivot.y);
+
+export const toDOMMatrix = (m?: AffineMatrix): DOMMatrix => m ? new DOMMatrix(m) : new DOMMatrix();
+
+export const fromDOMMatrix = (m: DOMMatrix): AffineMatrix => [m.a, m.b, m.c, m.d, m.e, m.f];
+
+// Where a canvas point was before `matrix`, in the content's own coordinates
+export const untransformPoint = (matrix: AffineMatrix | undefined, x: number, y: number): { x: number; y: number } => {
+  if (!matrix) return { x, y };
+  const p = toDOMMatrix(matrix).inverse().transformPoint(new DOMPoint(x, y));
+  return { x: p.x, y: p.y };
+};
+
+// Moves, rotations, flips and uniform scaling: nothing gets stretched or skewed
+export const isConformal = (m: DOMMatrix): boolean => {
+  const tolerance = 1e-6 * (m.a * m.a + m.b * m.b + m.c * m.c + m.d * m.d);
+  return Math.abs(m.a * m.a + m.b * m.b - m.c * m.c - m.d * m.d) <= tolerance && Math.abs(m.a * m.c + m.b * m.d) <= tolerance;
+};
+
+/**
+ * Smallest rectangle holding every non-transparent pixel, or null for an empty canvas.
+ */
+export const contentBounds = (canvas: HTMLCanvasElement): Rect | null => {
+  const { width, height } = canvas;
+  const data = canvas.getContext('2d')?.getImageData(0, 0, width, height).data;
+  if (!data) return null;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Corners of `rect` after the matrix, clockwise from the top left
+export const transformedCorners = (rect: Rect, m: DOMMatrix) =>
+  [[rect.x, rect.y], [rect.x + rect.width, rect.y], [rect.x + rect.width, rect.y + rect.height], [rect.x, rect.y + rect.height]]
+    .map(([x, y]) => m.transformPoint(new DOMPoint(x, y)));
+
+/**
+ * Draw `src` through the matrix with high-quality resampling. Canvas smoothing alone aliases
+ * when shrinking a lot, so large reductions are first halved step by step.
+ */
+export const drawTransformed = (ctx: CanvasRenderingContext2D, src: HTMLCanvasElement, m: DOMMatrix) => {
+  const scale = Math.sqrt(Math.abs(m.a * m.d - m.b * m.c));
+  let source = src;
+  let factor = 1;
+  while (scale / factor < 0.5 && source.width > 1 && source.height > 1) {
+    const half = document.createElement('canvas');
+    half.width = Math.max(1, Math.round(source.width / 2));
+    half.height = Math.max(1, Math.round(source.height / 2));
+    const hctx = half.getContext('2d')!;
+    hctx.imageSmoothingQuality = 'high';
+    hctx.drawImage(source, 0, 0, half.width, half.height);
+    factor *= source.width / half.width;
+    source = half;
+  }
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.setTransform(m.multiply(new DOMMatrix().scale(src.width / source.width, src.height / source.height)));
+  ctx.drawImage(source, 0, 0);
+  ctx.restore();
+};
+
+export const snapAngle = (degrees: number, force: boolean, tolerance = 3): number => {
+  const snapped = Math.round(degrees / SNAP_ANGLE) * SNAP_ANGLE;
+  return force || Math.abs(snapped - degrees) <= tolerance ? snapped : degrees;
+};
+
+/**
+ * Nudge the translation so the transformed content's box lines up with the canvas edges or
+ * center when it is within `tolerance` pixels of them.
+ */
+export const snapTranslation = (t: LayerTransform, bounds: Rect, width: number, height: number, tolerance: number): LayerTransform => {
+  const pivot = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+  const corners = transformedCorners(bounds, transformMatrix(t, pivot));
+  const xs = corners.map(p => p.x), ys = corners.map(p => p.y);
+  const box = { left: Math.min(...xs), right: Math.max(...xs), top: Math.min(...ys), bottom: Math.max(...ys) };
+  const offset = (edges: number[], targets: number[]) => {
+    let best = 0, bestDistance = tolerance + 1;
+    edges.forEach(e => targets.forEach(target => {
+      if (Math.abs(target - e) < bestDistance) { best = target - e; bestDistance = Math.abs(target - e); }
+    }));
+    return bestDistance <= tolerance ? best : 0;
+  };
+  return {
+    ...t,
+    x: t.x + offset([box.left, (box.left + box.right) / 2, box.right], [0, width / 2, width]),
+    y: t.y + offset([box.top, (box.top + box.bottom) / 2, box.bottom], [0, height / 2, height]),
+  };
+};
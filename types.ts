@@ -21,14 +21,165 @@ export enum ImageResolution {
 export interface GeneratedImage {
   url: string;
   prompt: string;
+  // Gallery record the image was saved as
+  id: string;
+}
+
+export interface GenerationParams {
+  providerId: string;
+  aspectRatio?: AspectRatio;
+  imageSize?: ImageResolution;
+  seed?: number;
+  // Edits only: whether the change was restricted to a painted mask, and that area's alpha as a
+  // PNG data URL so a regenerate can select it again
+  masked?: boolean;
+  mask?: string;
+  // Generations only: the reference images used, without their pixels
+  references?: { role: ReferenceRole; sourceId?: string }[];
 }
 
 export interface HistoryItem {
   id: string;
-  type: 'generated' | 'edited';
-  src: string;
+  // 'source' records are snapshots of the editor canvas an edit was made from.
+  type: 'generated' | 'edited' | 'source';
+  // Full-resolution original and a small preview for grids
+  image: Blob;
+  thumbnail: Blob;
   prompt: string;
   timestamp: number;
+  // Provenance; missing on records saved before it was tracked.
+  params?: GenerationParams;
+  parentId?: string;
+  // Organisation. Favorites store when they were starred because IndexedDB cannot index booleans.
+  tags?: string[];
+  favoritedAt?: number;
+  collectionIds?: string[];
+  // Lowercased prompt words, maintained by storageService for search.
+  keywords?: string[];
+  // SHA-256 of the image, for spotting duplicates on import
+  hash?: string;
+}
+
+// What callers hand to saveItem; the blobs, keywords and hash are derived from `src`.
+export type NewHistoryItem = Omit<HistoryItem, 'image' | 'thumbnail' | 'keywords' | 'hash'> & { src: string };
+
+export interface GalleryCollection {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface GalleryFilter {
+  search?: string;
+  type?: HistoryItem['type'];
+  providerId?: string;
+  aspectRatio?: AspectRatio;
+  // Timestamp range, inclusive
+  from?: number;
+  to?: number;
+  tag?: string;
+  favorites?: boolean;
+  collectionId?: string;
+}
+
+// Keyset position in the newest-first gallery order
+export interface GalleryCursor {
+  timestamp: number;
+  id: string;
+}
+
+export interface GalleryPage {
+  items: HistoryItem[];
+  // Where the next page starts, or null at the end
+  next: GalleryCursor | null;
+}
+
+export interface LevelsParams {
+  inputBlack: number;
+  inputWhite: number;
+  gamma: number;
+  outputBlack: number;
+  outputWhite: number;
+}
+
+export interface CurvesParams {
+  // Control points in 0-255 space, sorted by x; the curve passes through all of them.
+  points: { x: number; y: number }[];
+}
+
+export interface HueSaturationParams {
+  hue: number;
+  saturation: number;
+  lightness: number;
+}
+
+export interface BrightnessContrastParams {
+  brightness: number;
+  contrast: number;
+}
+
+export type Adjustment =
+  | { type: 'levels'; params: LevelsParams }
+  | { type: 'curves'; params: CurvesParams }
+  | { type: 'hueSaturation'; params: HueSaturationParams }
+  | { type: 'brightnessContrast'; params: BrightnessContrastParams };
+
+export type AdjustmentType = Adjustment['type'];
+
+export type LayerKind = 'raster' | 'adjustment' | 'text' | 'shape' | 'group';
+
+// Mirroring of brush strokes and shapes around the canvas center
+export type SymmetryMode = 'none' | 'vertical' | 'horizontal' | 'radial';
+
+export type ShapeType = 'rectangle' | 'ellipse' | 'line' | 'arrow' | 'polygon';
+
+// Canvas 2D affine matrix [a, b, c, d, e, f], as taken by ctx.transform()
+export type AffineMatrix = [number, number, number, number, number, number];
+
+export interface ShapeContent {
+  type: ShapeType;
+  // Bounding box in canvas pixels. Width and height may be negative; lines and arrows run
+  // from (x, y) to (x + width, y + height).
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill: string | null;
+  stroke: string | null;
+  strokeWidth: number;
+  cornerRadius: number;
+  // Corners of a polygon
+  sides: number;
+  arrowStart: boolean;
+  arrowEnd: boolean;
+  // Symmetry in effect when the shape was drawn; copies are rendered with it
+  symmetry: SymmetryMode;
+  radialCount: number;
+  // Point the copies are mirrored or rotated around, in the same space as the box, so it moves
+  // with the shape when the canvas is cropped, resized or rotated
+  symmetryCenter: { x: number, y: number };
+  // Free transform the box can't express (rotation, skew, flips), applied over everything above
+  matrix?: AffineMatrix;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextContent {
+  text: string;
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: number;
+  color: string;
+  align: TextAlign;
+  // Anchor of the first line in canvas pixels; `align` decides which side of the text it is on.
+  x: number;
+  y: number;
+  // Degrees clockwise around the anchor
+  rotation: number;
+  stroke?: { color: string; width: number };
+  shadow?: { color: string; blur: number; offsetX: number; offsetY: number };
+  // Free transform the anchor and rotation can't express (flips, uneven scaling), applied over the rest
+  matrix?: AffineMatrix;
 }
 
 export interface Layer {
@@ -40,18 +191,231 @@ export interface Layer {
   // We use HTMLCanvasElement as the source for the layer data.
   // This allows us to draw it efficiently to the composition canvas.
   canvas: HTMLCanvasElement;
+  // Optional non-destructive mask. Its alpha is the layer's visibility (opaque reveals,
+  // transparent hides); the layer panel shows it as a grayscale image.
+  mask?: HTMLCanvasElement;
+  maskEnabled?: boolean;
+  // Adjustment layers have no pixels of their own; they recolor everything below them.
+  kind?: LayerKind;
+  adjustment?: Adjustment;
+  // Text layers keep their canvas empty and are rasterized from this while compositing.
+  text?: TextContent;
+  // Shape layers work like text layers: rasterized from this while compositing.
+  shape?: ShapeContent;
+  // Group the layer belongs to. Groups are layers too; siblings stack in array order and a
+  // group is composited from its children as one unit.
+  parentId?: string;
+  // Locked pixels can't be painted on at all; locked alpha keeps painting inside what is
+  // already opaque. Neither affects the mask.
+  lockPixels?: boolean;
+  lockAlpha?: boolean;
 }
 
+// Layer properties at one point in history. The canvas is shared with the live
+// layer rather than copied; in-place pixel edits are recorded as PixelHistoryEntry diffs.
 export interface LayerSnapshot {
   id: string;
   name: string;
   visible: boolean;
   opacity: number;
   blendMode: GlobalCompositeOperation;
-  imageData: ImageData;
+  canvas: HTMLCanvasElement;
+  mask?: HTMLCanvasElement;
+  maskEnabled?: boolean;
+  kind?: LayerKind;
+  adjustment?: Adjustment;
+  text?: TextContent;
+  shape?: ShapeContent;
+  parentId?: string;
+  lockPixels?: boolean;
+  lockAlpha?: boolean;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Free transform of one layer around the center of its content. A negative scale flips it.
+export interface LayerTransform {
+  x: number;
+  y: number;
+  scaleX: number;
+  scaleY: number;
+  // Degrees clockwise
+  rotation: number;
+}
+
+// Painting tools plus the tools that only use the pointer (pan, selections).
+export type ToolType = 'pen' | 'spray' | 'marker' | 'eraser' | 'pan' | 'clone' | 'marquee' | 'lasso' | 'wand' | 'text' | 'shape' | 'bucket' | 'gradient';
+
+export type GradientType = 'linear' | 'radial';
+
+export interface GradientStop {
+  // 0 at the start of the drag, 1 at its end
+  offset: number;
+  color: string;
+}
+
+// Stylus input driving a brush property. Tilt is 0 upright and 1 lying flat.
+export type DynamicsInput = 'none' | 'pressure' | 'tilt';
+
+export interface DynamicsCurve {
+  input: DynamicsInput;
+  // Percentage of the property left at zero input
+  min: number;
+  // Shape of the response: below 1 ramps up early (soft), above 1 late (firm)
+  gamma: number;
+}
+
+export interface BrushDynamics {
+  size: DynamicsCurve;
+  flow: DynamicsCurve;
+  opacity: DynamicsCurve;
+}
+
+export interface BrushSettings {
+  color: string;
+  size: number;
+  type: ToolType;
+  shape: 'round' | 'square' | 'textured';
+  smoothing: number;
+  jitter: number;
+  flow: number;
+  falloff: number;
+  // Missing in projects saved before stylus support
+  dynamics?: BrushDynamics;
+}
+
+// Serialized form of a layer inside a project file; pixels are stored as a PNG data URL.
+export interface ProjectLayer {
+  id: string;
+  name: string;
+  visible: boolean;
+  opacity: number;
+  blendMode: GlobalCompositeOperation;
+  data: string;
+  mask?: string;
+  maskEnabled?: boolean;
+  kind?: LayerKind;
+  adjustment?: Adjustment;
+  text?: TextContent;
+  shape?: ShapeContent;
+  parentId?: string;
+  lockPixels?: boolean;
+  lockAlpha?: boolean;
+}
+
+export interface ProjectFile {
+  format: 'magiclens-project';
+  version: number;
+  name: string;
+  savedAt: number;
+  canvasSize: { width: number; height: number };
+  activeLayerId: string | null;
+  brush: BrushSettings;
+  layers: ProjectLayer[];
+  // Color under all layers, or null for a transparent document
+  background: string | null;
 }
 
-export interface HistoryState {
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  updatedAt: number;
+  thumbnail: string;
+  project: ProjectFile;
+}
+
+export interface StackState {
   layers: LayerSnapshot[];
   size: { width: number; height: number };
 }
+
+// An in-place pixel edit (e.g. a brush stroke) on one canvas, limited to its bounding box.
+export interface PixelHistoryEntry {
+  kind: 'pixels';
+  canvas: HTMLCanvasElement;
+  rect: Rect;
+  before: ImageData;
+  after: ImageData;
+  bytes: number;
+}
+
+// A structural change: add/delete/reorder, layer property edits or whole-canvas operations.
+export interface StackHistoryEntry {
+  kind: 'stack';
+  before: StackState;
+  after: StackState;
+  bytes: number;
+}
+
+export type HistoryState = PixelHistoryEntry | StackHistoryEntry;
+
+export interface ImageProviderCapabilities {
+  aspectRatios: AspectRatio[];
+  resolutions: ImageResolution[];
+  // Whether the provider can edit an existing image (optionally restricted by a mask).
+  edit: boolean;
+  // Whether a seed makes generations reproducible.
+  seed: boolean;
+  // How many reference images a generation can take; 0 when unsupported.
+  references: number;
+}
+
+// What a reference image is for: its look, the subject to keep, or the layout to follow.
+export type ReferenceRole = 'style' | 'subject' | 'composition';
+
+export interface ReferenceImage {
+  // Data URL
+  image: string;
+  role: ReferenceRole;
+  // Gallery record it was taken from, so regenerating can find it again
+  sourceId?: string;
+}
+
+export interface ImageGenerateRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  imageSize: ImageResolution;
+  seed?: number;
+  references?: ReferenceImage[];
+  signal?: AbortSignal;
+}
+
+export interface ImageEditRequest {
+  // Data URLs. The mask is white where the image may change and black elsewhere.
+  image: string;
+  prompt: string;
+  mask?: string;
+}
+
+export interface ImageProvider {
+  id: string;
+  // Short name shown in the Generate panel's model picker.
+  label: string;
+  description: string;
+  capabilities: ImageProviderCapabilities;
+  // Optional hook run before each request, e.g. to ask the user for credentials.
+  prepare?: () => Promise<void>;
+  generate: (request: ImageGenerateRequest) => Promise<string[]>;
+  edit: (request: ImageEditRequest) => Promise<string[]>;
+}
+
+export type GenerationJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  id: string;
+  providerId: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  imageSize: ImageResolution;
+  seed?: number;
+  references?: ReferenceImage[];
+  status: GenerationJobStatus;
+  results: string[];
+  error?: string;
+  attempts: number;
+}